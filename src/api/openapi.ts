@@ -0,0 +1,644 @@
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import { ignoreOverride, zodToJsonSchema } from "zod-to-json-schema";
+import { AdvancedRAGConfigSchema } from "../config/advanced-rag.config.js";
+import { ApiKeyRole } from "../services/api-keys.ts";
+import {
+  AdvancedQueryResponseSchema,
+  AdvancedRAGResultSchema,
+  ApiKeyObjectSchema,
+  ApiKeyResponseSchema,
+  ApiKeysResponseSchema,
+  BudgetResponseSchema,
+  BudgetSchema,
+  BudgetsResponseSchema,
+  BudgetStatusSchema,
+  CacheReportSchema,
+  ChunkPreviewResponseSchema,
+  ChunkPreviewSchema,
+  ClaimSchema,
+  CritiqueAttemptSchema,
+  DeletedResponseSchema,
+  DocumentRecordSchema,
+  DocumentResponseSchema,
+  DocumentsResponseSchema,
+  ErrorResponseSchema,
+  IngestionJobSchema,
+  JobResponseSchema,
+  MatchSchema,
+  MessageResponseSchema,
+  MessageSchema,
+  MetadataFilterSchema,
+  NamespacesResponseSchema,
+  NewApiKeyResponseSchema,
+  NewApiKeySchema,
+  NewSessionSchema,
+  PromptRefSchema,
+  PromptSetDetailsResponseSchema,
+  PromptSetResponseSchema,
+  PromptSetsResponseSchema,
+  PromptSetSummarySchema,
+  PromptSetUpdateSchema,
+  QueryResponseSchema,
+  QuerySchema,
+  QueryStreamEventSchemas,
+  ReadyResponseSchema,
+  SessionObjectSchema,
+  SessionResponseSchema,
+  SourceSchema,
+  TraceSchema,
+  UploadResponseSchema,
+  UploadSchema,
+  UsageQuerySchema,
+  UsageResponseSchema,
+  UsageSummarySchema,
+} from "./schemas.ts";
+
+const PACKAGE_PATH = fileURLToPath(
+  new URL("../../package.json", import.meta.url)
+);
+
+/** Schemas shared between operations, emitted once under `components` */
+const COMPONENTS: Record<string, z.ZodTypeAny> = {
+  Error: ErrorResponseSchema,
+  Config: AdvancedRAGConfigSchema,
+  MetadataFilter: MetadataFilterSchema,
+  Match: MatchSchema,
+  Source: SourceSchema,
+  Claim: ClaimSchema,
+  CritiqueAttempt: CritiqueAttemptSchema,
+  PromptRef: PromptRefSchema,
+  AdvancedRAGResult: AdvancedRAGResultSchema,
+  UsageSummary: UsageSummarySchema,
+  CacheReport: CacheReportSchema,
+  Trace: TraceSchema,
+  IngestionJob: IngestionJobSchema,
+  Session: SessionObjectSchema,
+  DocumentRecord: DocumentRecordSchema,
+  PromptSetSummary: PromptSetSummarySchema,
+  BudgetStatus: BudgetStatusSchema,
+  ApiKey: ApiKeyObjectSchema,
+};
+
+const componentNames = new Map(
+  Object.entries(COMPONENTS).map(([name, schema]) => [schema._def, name])
+);
+
+type JsonSchema = Record<string, unknown>;
+
+// Components become references; any other schema used twice is repeated
+const CONVERSION = {
+  target: "jsonSchema7",
+  $refStrategy: "none",
+  // Only `.strict()` objects reject unknown keys; the rest strip them
+  removeAdditionalStrategy: "strict",
+  override: (
+    def: z.ZodTypeDef,
+    _refs: unknown,
+    _seen: unknown,
+    force = false
+  ) => {
+    const name = force ? undefined : componentNames.get(def);
+    return name ? { $ref: `#/components/schemas/${name}` } : ignoreOverride;
+  },
+} as const;
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const { $schema: _, ...jsonSchema } = zodToJsonSchema(
+    schema,
+    CONVERSION
+  ) as JsonSchema;
+  return jsonSchema;
+}
+
+function componentSchemas(): Record<string, JsonSchema> {
+  const { definitions } = zodToJsonSchema(z.object({}), {
+    ...CONVERSION,
+    definitions: COMPONENTS,
+  }) as { definitions: Record<string, JsonSchema> };
+  return definitions;
+}
+
+interface ResponseDoc {
+  description: string;
+  schema?: z.ZodTypeAny;
+  /** Defaults to application/json */
+  contentType?: string;
+  /** Overrides the schema generated from `schema` */
+  jsonSchema?: JsonSchema;
+}
+
+interface RouteDoc {
+  method: "get" | "post" | "put" | "delete";
+  /** Express-style, such as `/documents/:id` */
+  path: string;
+  summary: string;
+  description?: string;
+  /** Unset for routes that need no API key */
+  role?: ApiKeyRole;
+  body?: z.ZodTypeAny;
+  /** A multipart form: `schema` for the text fields plus file fields */
+  multipart?: { schema: z.ZodTypeAny; files: string; multiple: boolean };
+  query?: z.AnyZodObject;
+  /** Answers with LLM calls, refused once the namespace's budget is spent */
+  budgeted?: boolean;
+  responses: Record<number, ResponseDoc>;
+}
+
+const notFound = (what: string): ResponseDoc => ({
+  description: `${what} not found`,
+  schema: ErrorResponseSchema,
+});
+
+const NamespaceQuerySchema = z.object({
+  namespace: z.string().min(1).max(128).optional(),
+});
+
+const STREAM_DESCRIPTION =
+  "Server-Sent Events. Each event's `data` is JSON: `sources` once, then `queries`, `token` per piece of the answer, `revision` when self-critique replaced it, and `final`; `error` if the pipeline failed part way.";
+
+const ROUTES: RouteDoc[] = [
+  {
+    method: "get",
+    path: "/health",
+    summary: "Liveness check",
+    responses: {
+      200: {
+        description: "The server is up",
+        schema: z.object({ ok: z.literal(true) }),
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/ready",
+    summary: "Readiness check of the vector store and LLM provider",
+    responses: {
+      200: {
+        description: "Every dependency answered",
+        schema: ReadyResponseSchema,
+      },
+      503: {
+        description: "A dependency failed or timed out",
+        schema: ReadyResponseSchema,
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/metrics",
+    summary: "Prometheus metrics",
+    responses: {
+      200: {
+        description: "Metrics in the Prometheus text format",
+        contentType: "text/plain",
+        jsonSchema: { type: "string" },
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/openapi.json",
+    summary: "This OpenAPI document",
+    responses: {
+      200: { description: "OpenAPI 3.1", jsonSchema: { type: "object" } },
+    },
+  },
+  {
+    method: "get",
+    path: "/docs",
+    summary: "API reference rendered from this document",
+    responses: {
+      200: {
+        description: "HTML page",
+        contentType: "text/html",
+        jsonSchema: { type: "string" },
+      },
+    },
+  },
+  {
+    method: "post",
+    path: "/upload",
+    summary: "Upload documents for ingestion",
+    description:
+      "Starts a background ingestion job; poll `GET /jobs/{id}` for progress. `metadata` is a JSON-encoded object, or an array with one object per file.",
+    role: "ingest",
+    multipart: { schema: UploadSchema, files: "files", multiple: true },
+    responses: {
+      202: {
+        description: "Ingestion job started",
+        schema: UploadResponseSchema,
+      },
+    },
+  },
+  {
+    method: "post",
+    path: "/chunk/preview",
+    summary: "Preview how a file would be chunked, without storing it",
+    role: "ingest",
+    multipart: { schema: ChunkPreviewSchema, files: "file", multiple: false },
+    responses: {
+      200: { description: "The chunks", schema: ChunkPreviewResponseSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/jobs/:id",
+    summary: "Get an ingestion job",
+    role: "ingest",
+    responses: {
+      200: { description: "The job", schema: JobResponseSchema },
+      404: notFound("Job"),
+    },
+  },
+  {
+    method: "post",
+    path: "/query",
+    summary: "Search a namespace, optionally answering the query",
+    description:
+      "With `Accept: text/event-stream`, streams like `POST /query/stream`.",
+    role: "read",
+    body: QuerySchema,
+    budgeted: true,
+    responses: {
+      200: { description: "Matches and answer", schema: QueryResponseSchema },
+    },
+  },
+  {
+    method: "post",
+    path: "/query/stream",
+    summary: "Answer a query as a stream of events",
+    role: "read",
+    body: QuerySchema,
+    budgeted: true,
+    responses: {
+      200: {
+        description: STREAM_DESCRIPTION,
+        contentType: "text/event-stream",
+        jsonSchema: {
+          oneOf: Object.entries(QueryStreamEventSchemas).map(
+            ([event, schema]) => ({
+              type: "object",
+              properties: {
+                event: { const: event },
+                data: toJsonSchema(schema),
+              },
+              required: ["event", "data"],
+            })
+          ),
+        },
+      },
+    },
+  },
+  {
+    method: "post",
+    path: "/query/advanced",
+    summary: "Answer a query with the full pipeline result",
+    role: "read",
+    body: QuerySchema,
+    budgeted: true,
+    responses: {
+      200: {
+        description: "The pipeline result, or a message when nothing matched",
+        schema: AdvancedQueryResponseSchema,
+      },
+    },
+  },
+  {
+    method: "post",
+    path: "/sessions",
+    summary: "Start a conversation",
+    role: "read",
+    body: NewSessionSchema,
+    responses: {
+      201: { description: "The new session", schema: SessionResponseSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/sessions/:id",
+    summary: "Get a conversation",
+    role: "read",
+    responses: {
+      200: { description: "The session", schema: SessionResponseSchema },
+      404: notFound("Session"),
+    },
+  },
+  {
+    method: "post",
+    path: "/sessions/:id/messages",
+    summary: "Ask a follow-up question in a conversation",
+    role: "read",
+    body: MessageSchema,
+    budgeted: true,
+    responses: {
+      200: { description: "The answer", schema: MessageResponseSchema },
+      404: notFound("Session"),
+    },
+  },
+  {
+    method: "get",
+    path: "/namespaces",
+    summary: "List namespaces",
+    role: "read",
+    responses: {
+      200: { description: "Namespaces", schema: NamespacesResponseSchema },
+    },
+  },
+  {
+    method: "delete",
+    path: "/namespaces/:ns",
+    summary: "Delete a namespace and its documents",
+    role: "ingest",
+    responses: {
+      200: { description: "Deleted", schema: DeletedResponseSchema },
+      404: notFound("Namespace"),
+    },
+  },
+  {
+    method: "get",
+    path: "/documents",
+    summary: "List documents",
+    role: "read",
+    query: NamespaceQuerySchema,
+    responses: {
+      200: { description: "Documents", schema: DocumentsResponseSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/documents/:id",
+    summary: "Get a document",
+    role: "read",
+    query: NamespaceQuerySchema,
+    responses: {
+      200: { description: "The document", schema: DocumentResponseSchema },
+      404: notFound("Document"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/documents/:id",
+    summary: "Delete a document and its chunks",
+    role: "ingest",
+    query: NamespaceQuerySchema,
+    responses: {
+      200: { description: "Deleted", schema: DeletedResponseSchema },
+      404: notFound("Document"),
+    },
+  },
+  {
+    method: "get",
+    path: "/prompts",
+    summary: "List prompt sets",
+    role: "admin",
+    responses: {
+      200: { description: "Prompt sets", schema: PromptSetsResponseSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/prompts/:name",
+    summary: "Get a prompt set with the templates of one version",
+    role: "admin",
+    query: z.object({ version: z.string().optional() }),
+    responses: {
+      200: {
+        description: "The prompt set",
+        schema: PromptSetDetailsResponseSchema,
+      },
+      404: notFound("Prompt set or version"),
+    },
+  },
+  {
+    method: "put",
+    path: "/prompts/:name",
+    summary: "Save templates, roll back, or bind namespaces to a prompt set",
+    role: "admin",
+    body: PromptSetUpdateSchema,
+    responses: {
+      200: { description: "The updated set", schema: PromptSetResponseSchema },
+      404: notFound("Prompt set or version"),
+    },
+  },
+  {
+    method: "get",
+    path: "/usage",
+    summary: "LLM usage, in total and per API key and namespace",
+    description: "Keys without the admin role only see their own usage.",
+    role: "read",
+    query: UsageQuerySchema,
+    responses: {
+      200: { description: "Usage", schema: UsageResponseSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/budgets",
+    summary: "List namespace budgets with this month's spend",
+    role: "admin",
+    responses: {
+      200: { description: "Budgets", schema: BudgetsResponseSchema },
+    },
+  },
+  {
+    method: "put",
+    path: "/budgets/:namespace",
+    summary: "Set or remove a namespace's monthly budget",
+    role: "admin",
+    body: BudgetSchema,
+    responses: {
+      200: { description: "The budget", schema: BudgetResponseSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/keys",
+    summary: "List API keys",
+    role: "admin",
+    responses: {
+      200: { description: "API keys", schema: ApiKeysResponseSchema },
+    },
+  },
+  {
+    method: "post",
+    path: "/keys",
+    summary: "Issue an API key",
+    role: "admin",
+    body: NewApiKeySchema,
+    responses: {
+      201: {
+        description: "The key, with its secret shown only this once",
+        schema: NewApiKeyResponseSchema,
+      },
+    },
+  },
+  {
+    method: "delete",
+    path: "/keys/:id",
+    summary: "Revoke an API key",
+    role: "admin",
+    responses: {
+      200: { description: "The revoked key", schema: ApiKeyResponseSchema },
+      404: notFound("API key"),
+    },
+  },
+];
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": { schema: toJsonSchema(ErrorResponseSchema) },
+  },
+});
+
+function operation(route: RouteDoc) {
+  const pathParams = [...route.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+  const queryParams = Object.entries(route.query?.shape ?? {}).map(
+    ([name, schema]) => ({
+      name,
+      in: "query",
+      required: !(schema as z.ZodTypeAny).isOptional(),
+      schema: toJsonSchema(
+        schema instanceof z.ZodOptional ? schema.unwrap() : schema
+      ),
+    })
+  );
+
+  let requestBody: JsonSchema | undefined;
+  if (route.body) {
+    requestBody = {
+      required: true,
+      content: { "application/json": { schema: toJsonSchema(route.body) } },
+    };
+  } else if (route.multipart) {
+    const { schema, files, multiple } = route.multipart;
+    const fields = toJsonSchema(schema);
+    const file = {
+      type: "string",
+      contentMediaType: "application/octet-stream",
+    };
+    requestBody = {
+      required: true,
+      content: {
+        "multipart/form-data": {
+          schema: {
+            ...fields,
+            properties: {
+              [files]: multiple ? { type: "array", items: file } : file,
+              ...(fields.properties as JsonSchema),
+            },
+            required: [files],
+          },
+        },
+      },
+    };
+  }
+
+  const responses: Record<string, unknown> = {};
+  for (const [status, response] of Object.entries(route.responses)) {
+    const schema =
+      response.jsonSchema ?? (response.schema && toJsonSchema(response.schema));
+    responses[status] = {
+      description: response.description,
+      ...(schema && {
+        content: { [response.contentType ?? "application/json"]: { schema } },
+      }),
+    };
+  }
+  if (route.body || route.multipart || route.query) {
+    responses[400] = errorResponse("Invalid parameters");
+  }
+  if (route.role) {
+    responses[401] = errorResponse("Missing or unknown API key");
+    responses[403] = errorResponse(
+      "The key lacks the role or namespace access"
+    );
+    responses[429] = errorResponse("Rate limited; see the Retry-After header");
+  }
+  if (route.budgeted) {
+    responses[402] = errorResponse("The namespace's monthly budget is spent");
+  }
+
+  return {
+    summary: route.summary,
+    ...(route.description && { description: route.description }),
+    ...(route.role
+      ? {
+          tags: [route.role],
+          security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+        }
+      : { tags: ["public"], security: [] }),
+    parameters: [...pathParams, ...queryParams],
+    ...(requestBody && { requestBody }),
+    responses,
+  };
+}
+
+let document: JsonSchema | null = null;
+
+/**
+ * The OpenAPI 3.1 document for the API, generated from the request and
+ * response schemas on first use.
+ */
+export function openAPIDocument(): JsonSchema {
+  if (!document) {
+    const { version } = JSON.parse(readFileSync(PACKAGE_PATH, "utf8"));
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const route of ROUTES) {
+      const path = route.path.replace(/:(\w+)/g, "{$1}");
+      paths[path] = { ...paths[path], [route.method]: operation(route) };
+    }
+
+    document = {
+      openapi: "3.1.0",
+      info: {
+        title: "Cogno API",
+        version,
+        description:
+          "Retrieval-augmented answers over uploaded documents. Authenticate with an API key as a bearer token or in `X-API-Key`; tags name the role each operation needs.",
+      },
+      paths,
+      components: {
+        schemas: componentSchemas(),
+        securitySchemes: {
+          bearerAuth: { type: "http", scheme: "bearer" },
+          apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+        },
+      },
+    };
+  }
+  return document;
+}
+
+// Served from the npm package as published, so the hash can be checked
+// against `npm pack redoc@<version>`
+const REDOC_SCRIPT = {
+  src: "https://cdn.jsdelivr.net/npm/redoc@2.5.0/bundles/redoc.standalone.js",
+  integrity:
+    "sha384-4vOjrBu7SuDWXcAw1qFznVLA/sKL+0l4nn+J1HY8w7cpa6twQEYuh4b0Cwuo7CyX",
+};
+
+/** Reference docs rendering `/openapi.json` */
+export const DOCS_PAGE = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Cogno API</title>
+  </head>
+  <body>
+    <redoc spec-url="/openapi.json"></redoc>
+    <script
+      src="${REDOC_SCRIPT.src}"
+      integrity="${REDOC_SCRIPT.integrity}"
+      crossorigin="anonymous"
+    ></script>
+  </body>
+</html>
+`;
@@ -0,0 +1,730 @@
+import { z } from "zod";
+import {
+  AdvancedRAGConfigSchema,
+  RequestConfigOverrideSchema,
+} from "../config/advanced-rag.config.js";
+import { hasProfile, profileNames } from "../config/profiles.ts";
+import { API_KEY_ROLES } from "../services/api-keys.ts";
+import { getPromptSet, PromptTemplatesSchema } from "../services/prompts.ts";
+import { CHUNK_STRATEGIES } from "../utils/chunk.ts";
+import { EMBED_MODEL_MAX_TOKENS } from "../utils/tokenizer.ts";
+
+// Requests
+
+// Multipart form fields arrive as strings, so numbers are coerced
+const ChunkingSchema = z.object({
+  chunkSize: z.coerce.number().int().min(200).max(4000).optional(),
+  chunkOverlap: z.coerce.number().int().min(0).max(1000).optional(),
+  chunkStrategy: z.enum(CHUNK_STRATEGIES).optional(),
+});
+
+function validateChunking(
+  data: z.infer<typeof ChunkingSchema>,
+  ctx: z.RefinementCtx
+) {
+  const chunkSize = data.chunkSize ?? 1200;
+  const chunkOverlap = data.chunkOverlap ?? 200;
+
+  if (chunkOverlap >= chunkSize) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["chunkOverlap"],
+      message: "chunkOverlap must be smaller than chunkSize",
+    });
+  }
+  if (data.chunkStrategy === "token" && chunkSize > EMBED_MODEL_MAX_TOKENS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["chunkSize"],
+      message: `Token chunks cannot exceed the embedding model limit of ${EMBED_MODEL_MAX_TOKENS} tokens`,
+    });
+  }
+}
+
+// Multipart fields are strings, so structured fields arrive as JSON
+function jsonField<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess((value) => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }, schema);
+}
+
+export const DocumentAttributesSchema = z
+  .object({
+    author: z.string().min(1).max(200).optional(),
+    work: z.string().min(1).max(200).optional(),
+    tags: z.array(z.string().min(1).max(64)).max(32).optional(),
+    language: z.string().min(2).max(35).optional(),
+    year: z.number().int().min(-3000).max(3000).optional(),
+  })
+  .strict();
+
+// One object for every file, or an array matching the order of `files`
+export const UploadSchema = ChunkingSchema.extend({
+  namespace: z.string().min(1).max(128).optional(),
+  metadata: jsonField(
+    z.union([DocumentAttributesSchema, z.array(DocumentAttributesSchema)])
+  ).optional(),
+  // Drop earlier documents with the same file name, such as an old version
+  replaceByFilename: jsonField(z.boolean()).optional(),
+}).superRefine(validateChunking);
+
+export const ChunkPreviewSchema = ChunkingSchema.superRefine(validateChunking);
+
+const FilterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export const DateSchema = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), "Invalid date");
+
+function conditionSchema(bound: z.ZodTypeAny = z.number()) {
+  return z.union([
+    FilterValueSchema,
+    z
+      .object({
+        $eq: FilterValueSchema.optional(),
+        $in: z.array(FilterValueSchema).min(1).max(100).optional(),
+        $gt: bound.optional(),
+        $gte: bound.optional(),
+        $lt: bound.optional(),
+        $lte: bound.optional(),
+      })
+      .strict()
+      .refine((condition) => Object.keys(condition).length > 0, {
+        message: "Condition needs at least one operator",
+      }),
+  ]);
+}
+
+// Fields combine with AND; uploadedAt takes ISO dates or epoch milliseconds
+export const MetadataFilterSchema = z
+  .object({
+    source: conditionSchema(),
+    documentId: conditionSchema(),
+    author: conditionSchema(),
+    work: conditionSchema(),
+    tags: conditionSchema(),
+    language: conditionSchema(),
+    year: conditionSchema(),
+    uploadedAt: conditionSchema(z.union([z.number(), DateSchema])),
+  })
+  .partial()
+  .strict();
+
+export const ProfileNameSchema = z.string().refine(hasProfile, (name) => ({
+  message: `Unknown profile: ${name} (available: ${profileNames().join(", ")})`,
+}));
+
+// Options shared by queries and session messages
+const QueryOptionsSchema = z.object({
+  topK: z.number().int().min(1).max(50).optional(),
+  filter: MetadataFilterSchema.optional(),
+  // Named config profile, then per-request overrides on top of it
+  profile: ProfileNameSchema.optional(),
+  config: RequestConfigOverrideSchema.optional(),
+  // Return the request's stage timings with the response
+  debug: z.boolean().optional(),
+});
+
+async function validatePromptSet(
+  data: z.infer<typeof QueryOptionsSchema>,
+  ctx: z.RefinementCtx
+) {
+  const promptSet = data.config?.promptSet;
+  if (promptSet && !(await getPromptSet(promptSet))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["config", "promptSet"],
+      message: `Unknown prompt set: ${promptSet}`,
+    });
+  }
+}
+
+export const QuerySchema = QueryOptionsSchema.extend({
+  query: z.string().min(1),
+  namespace: z.string().min(1).max(128).optional(),
+  withAnswer: z.boolean().optional(),
+}).superRefine(validatePromptSet);
+
+// New templates or a version to roll back to, and/or the namespaces to bind
+export const PromptSetUpdateSchema = z
+  .object({
+    templates: PromptTemplatesSchema.optional(),
+    version: z.string().min(1).optional(),
+    namespaces: z.array(z.string().min(1).max(128)).max(1000).optional(),
+  })
+  .strict()
+  .refine((data) => !(data.templates && data.version), {
+    message: "Give either templates or version, not both",
+  })
+  .refine((data) => data.templates || data.version || data.namespaces, {
+    message: "Nothing to update",
+  });
+
+export const NewApiKeySchema = z
+  .object({
+    name: z.string().min(1).max(128),
+    roles: z.array(z.enum(API_KEY_ROLES)).min(1),
+    // "*" grants every namespace
+    namespaces: z.array(z.string().min(1).max(128)).min(1),
+    profile: ProfileNameSchema.optional(),
+    rateLimit: z
+      .object({
+        requestsPerMinute: z.number().int().min(1).optional(),
+        tokensPerMinute: z.number().int().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export const NewSessionSchema = z.object({
+  namespace: z.string().min(1).max(128).optional(),
+});
+
+export const MessageSchema = QueryOptionsSchema.extend({
+  content: z.string().min(1),
+}).superRefine(validatePromptSet);
+
+export const UsageQuerySchema = z.object({
+  from: DateSchema.optional(),
+  to: DateSchema.optional(),
+  namespace: z.string().min(1).max(128).optional(),
+});
+
+export const BudgetSchema = z
+  .object({
+    // Null removes the budget
+    monthlyBudgetUsd: z.number().min(0).nullable(),
+  })
+  .strict();
+
+// Responses. Handlers check their bodies against these with `satisfies`.
+
+function okResponse<T extends z.ZodRawShape>(shape: T) {
+  return z.object({ ok: z.literal(true), ...shape });
+}
+
+export const ErrorResponseSchema = z
+  .object({
+    error: z.string(),
+    details: z.unknown().optional(),
+  })
+  .passthrough();
+
+// Chunk metadata in camelCase, as mapped from the stored fields
+export const ChunkMetadataSchema = z.object({
+  source: z.string().optional(),
+  chunkIndex: z.number().int().optional(),
+  documentId: z.string().optional(),
+  pageStart: z.number().int().optional(),
+  pageEnd: z.number().int().optional(),
+  sectionPath: z.array(z.string()).optional(),
+  author: z.string().optional(),
+  work: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  language: z.string().optional(),
+  year: z.number().int().optional(),
+  uploadedAt: z.string().optional(),
+});
+
+export const MatchSchema = z.object({
+  _id: z.string(),
+  _score: z.number(),
+  vectorScore: z.number().optional(),
+  keywordScore: z.number().optional(),
+  // As stored in the index, in snake_case
+  fields: z.record(z.unknown()),
+  metadata: ChunkMetadataSchema.extend({
+    source: z.string(),
+    chunkIndex: z.number().int(),
+  }),
+});
+
+export const SourceSchema = ChunkMetadataSchema.extend({
+  vectorScore: z.number().optional(),
+  keywordScore: z.number().optional(),
+});
+
+export const ClaimSchema = z.object({
+  text: z.string(),
+  citations: z.array(
+    ChunkMetadataSchema.extend({
+      quote: z.string(),
+      match: z.enum(["exact", "fuzzy", "none"]),
+      verified: z.boolean(),
+    })
+  ),
+  supported: z.boolean(),
+});
+
+export const RankedDocumentSchema = z.object({
+  text: z.string(),
+  relevanceScore: z.number(),
+  index: z.number().int(),
+});
+
+export const CritiqueAttemptSchema = z.object({
+  attempt: z.number().int(),
+  strategy: z.enum(["initial", "requery", "widen", "narrow"]),
+  queries: z.array(z.string()).optional(),
+  contextDocuments: z.number().int(),
+  answer: z.string(),
+  score: z.number(),
+  details: z.record(z.unknown()),
+});
+
+export const PipelineStageSchema = z.enum([
+  "expansion",
+  "search",
+  "rerank",
+  "synthesis",
+  "critique",
+  "citations",
+]);
+
+export const PromptRefSchema = z.object({
+  set: z.string(),
+  version: z.string(),
+});
+
+export const AdvancedRAGResultSchema = z.object({
+  query: z.string(),
+  expandedQueries: z.array(z.string()),
+  // Texts of the candidate chunks, in the order of `sources`
+  documents: z.array(z.string()),
+  sources: z.array(SourceSchema),
+  rerankedDocuments: z.array(RankedDocumentSchema),
+  finalAnswer: z.string(),
+  claims: z.array(ClaimSchema),
+  droppedCitations: z.number().int(),
+  critiqueScore: z.number().nullable(),
+  confidence: z.number().nullable(),
+  attempts: z.array(CritiqueAttemptSchema),
+  degraded: z.array(PipelineStageSchema),
+  prompts: PromptRefSchema,
+});
+
+export const LLMCallSchema = z.object({
+  stage: z.enum([
+    "condense",
+    "expansion",
+    "rerank",
+    "synthesis",
+    "critique",
+    "citations",
+  ]),
+  model: z.string(),
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+  latencyMs: z.number(),
+  estimated: z.boolean(),
+  costUsd: z.number().nullable(),
+});
+
+export const UsageSummarySchema = z.object({
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+  totalTokens: z.number().int(),
+  costUsd: z.number(),
+  unpricedModels: z.array(z.string()),
+  calls: z.array(LLMCallSchema),
+});
+
+const CacheCountsSchema = z.object({
+  hits: z.number().int(),
+  misses: z.number().int(),
+});
+
+export const CacheReportSchema = z.object({
+  enabled: z.boolean(),
+  expansion: CacheCountsSchema,
+  search: CacheCountsSchema,
+  answer: CacheCountsSchema,
+});
+
+export const TraceSchema = z.object({
+  requestId: z.string(),
+  durationMs: z.number(),
+  spans: z.array(
+    z.object({
+      name: z.string(),
+      startMs: z.number(),
+      durationMs: z.number(),
+      attributes: z.record(z.unknown()).optional(),
+      error: z.string().optional(),
+    })
+  ),
+});
+
+// Settings every query response reports back
+const queryContext = {
+  profile: z.string().nullable(),
+  config: AdvancedRAGConfigSchema,
+  cache: CacheReportSchema,
+  trace: TraceSchema.optional(),
+};
+
+export const QueryResponseSchema = okResponse({
+  matches: z.array(MatchSchema),
+  answer: z.string().optional(),
+  prompts: PromptRefSchema.optional(),
+  usage: UsageSummarySchema.optional(),
+  advancedRAG: z
+    .object({
+      expandedQueries: z.array(z.string()),
+      critiqueScore: z.number().nullable(),
+      confidence: z.number().nullable(),
+      rerankedDocuments: z.number().int(),
+      sources: z.array(SourceSchema),
+      claims: z.array(ClaimSchema),
+      droppedCitations: z.number().int(),
+      attempts: z.array(CritiqueAttemptSchema),
+      degraded: z.array(PipelineStageSchema),
+    })
+    .optional(),
+  ...queryContext,
+});
+
+export const AdvancedQueryResponseSchema = z.union([
+  okResponse({
+    query: z.string(),
+    namespace: z.string(),
+    advancedRAG: AdvancedRAGResultSchema,
+    // The first raw matches, for comparison with the reranked documents
+    rawMatches: z.array(MatchSchema),
+    usage: UsageSummarySchema,
+    ...queryContext,
+  }),
+  okResponse({
+    query: z.string(),
+    message: z.literal("No relevant documents found"),
+    advancedRAG: AdvancedRAGResultSchema.pick({
+      expandedQueries: true,
+      critiqueScore: true,
+      confidence: true,
+      rerankedDocuments: true,
+      documents: true,
+      sources: true,
+      claims: true,
+    }),
+    prompts: PromptRefSchema,
+    ...queryContext,
+  }),
+]);
+
+/** Server-sent events of `/query/stream`, keyed by event name */
+export const QueryStreamEventSchemas = {
+  sources: z.object({ matches: z.array(MatchSchema) }),
+  queries: z.object({ expandedQueries: z.array(z.string()) }),
+  token: z.object({ token: z.string() }),
+  revision: z.object({ answer: z.string(), critiqueScore: z.number() }),
+  // Without sources and the answer details when nothing matched
+  final: z.object({
+    answer: z.string(),
+    critiqueScore: z.number().nullable(),
+    confidence: z.number().nullable(),
+    sources: z.array(SourceSchema).optional(),
+    claims: z.array(ClaimSchema).optional(),
+    attempts: z.array(CritiqueAttemptSchema).optional(),
+    degraded: z.array(PipelineStageSchema).optional(),
+    prompts: PromptRefSchema,
+    usage: UsageSummarySchema.optional(),
+    ...queryContext,
+  }),
+  error: z.object({ error: z.string() }),
+};
+
+export const ReadyResponseSchema = z.object({
+  ok: z.boolean(),
+  checks: z.array(
+    z.object({
+      name: z.string(),
+      ok: z.boolean(),
+      latencyMs: z.number(),
+      error: z.string().optional(),
+    })
+  ),
+});
+
+export const JobStatusSchema = z.enum([
+  "queued",
+  "running",
+  "completed",
+  "failed",
+]);
+
+export const UploadResponseSchema = okResponse({
+  jobId: z.string(),
+  status: JobStatusSchema,
+  namespace: z.string(),
+});
+
+export const ChunkPreviewResponseSchema = okResponse({
+  filename: z.string(),
+  format: z.string(),
+  metadata: z.record(z.union([z.string(), z.number()])),
+  chunkStrategy: z.enum(CHUNK_STRATEGIES),
+  chunkSize: z.number().int(),
+  chunkOverlap: z.number().int(),
+  totalChunks: z.number().int(),
+  chunks: z.array(
+    z.object({
+      chunkIndex: z.number().int(),
+      text: z.string(),
+      start: z.number().int(),
+      end: z.number().int(),
+      size: z.number().int(),
+      pageStart: z.number().int().optional(),
+      pageEnd: z.number().int().optional(),
+      sectionPath: z.array(z.string()),
+    })
+  ),
+});
+
+export const IngestionJobSchema = z.object({
+  id: z.string(),
+  status: JobStatusSchema,
+  options: z.object({
+    namespace: z.string(),
+    chunkSize: z.number().int(),
+    chunkOverlap: z.number().int(),
+    chunkStrategy: z.enum(CHUNK_STRATEGIES).optional(),
+    replaceByFilename: z.boolean().optional(),
+  }),
+  files: z.array(
+    z.object({
+      filename: z.string(),
+      mimetype: z.string(),
+      size: z.number().int(),
+      attributes: DocumentAttributesSchema.optional(),
+      status: z.enum([
+        "pending",
+        "processing",
+        "completed",
+        "unchanged",
+        "empty",
+        "failed",
+      ]),
+      documentId: z.string().optional(),
+      replacedDocumentIds: z.array(z.string()).optional(),
+      chunksProcessed: z.number().int(),
+      chunksTotal: z.number().int(),
+      error: z.string().optional(),
+    })
+  ),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const JobResponseSchema = okResponse({ job: IngestionJobSchema });
+
+export const SessionObjectSchema = z.object({
+  id: z.string(),
+  namespace: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  turns: z.array(
+    z.object({
+      role: z.enum(["user", "assistant"]),
+      content: z.string(),
+      createdAt: z.string(),
+      standaloneQuery: z.string().optional(),
+      sources: z.array(SourceSchema).optional(),
+      claims: z.array(ClaimSchema).optional(),
+      critiqueScore: z.number().optional(),
+      confidence: z.number().optional(),
+      prompts: PromptRefSchema.optional(),
+    })
+  ),
+});
+
+export const SessionResponseSchema = okResponse({
+  session: SessionObjectSchema,
+});
+
+export const MessageResponseSchema = okResponse({
+  sessionId: z.string(),
+  standaloneQuery: z.string(),
+  answer: z.string(),
+  sources: z.array(SourceSchema),
+  claims: z.array(ClaimSchema),
+  advancedRAG: AdvancedRAGResultSchema.pick({
+    expandedQueries: true,
+    critiqueScore: true,
+    confidence: true,
+    degraded: true,
+    prompts: true,
+  }).optional(),
+  usage: UsageSummarySchema,
+  ...queryContext,
+});
+
+export const NamespacesResponseSchema = okResponse({
+  namespaces: z.array(
+    z.object({ name: z.string(), recordCount: z.number().int() })
+  ),
+});
+
+export const DeletedResponseSchema = okResponse({
+  deleted: z.string(),
+  // Chunks removed, for documents
+  chunks: z.number().int().optional(),
+});
+
+export const DocumentRecordSchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  hash: z.string(),
+  namespace: z.string(),
+  format: z.string().optional(),
+  metadata: z.record(z.union([z.string(), z.number()])).optional(),
+  attributes: DocumentAttributesSchema.optional(),
+  chunking: z
+    .object({
+      chunkSize: z.number().int(),
+      chunkOverlap: z.number().int(),
+      chunkStrategy: z.enum(CHUNK_STRATEGIES).optional(),
+    })
+    .optional(),
+  chunkCount: z.number().int(),
+  uploadedAt: z.string(),
+});
+
+export const DocumentsResponseSchema = okResponse({
+  documents: z.array(DocumentRecordSchema),
+});
+
+export const DocumentResponseSchema = okResponse({
+  document: DocumentRecordSchema,
+});
+
+export const PromptSetSummarySchema = z.object({
+  name: z.string(),
+  version: z.string(),
+  versions: z.array(
+    z.object({ id: z.string(), createdAt: z.string().nullable() })
+  ),
+  namespaces: z.array(z.string()),
+});
+
+export const PromptSetsResponseSchema = okResponse({
+  promptSets: z.array(PromptSetSummarySchema),
+});
+
+export const PromptSetResponseSchema = okResponse({
+  promptSet: PromptSetSummarySchema,
+});
+
+export const PromptSetDetailsResponseSchema = okResponse({
+  promptSet: PromptSetSummarySchema.extend({
+    templates: PromptTemplatesSchema,
+    // The version whose templates are shown
+    shown: z.string(),
+  }),
+});
+
+const UsageTotalsSchema = z.object({
+  requests: z.number().int(),
+  calls: z.number().int(),
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+  totalTokens: z.number().int(),
+  costUsd: z.number(),
+});
+
+export const UsageResponseSchema = okResponse({
+  from: z.string(),
+  to: z.string(),
+  totals: UsageTotalsSchema,
+  groups: z.array(
+    UsageTotalsSchema.extend({
+      apiKeyId: z.string().nullable(),
+      namespace: z.string(),
+    })
+  ),
+});
+
+export const BudgetStatusSchema = z.object({
+  namespace: z.string(),
+  month: z.string(),
+  monthlyBudgetUsd: z.number().nullable(),
+  spentUsd: z.number(),
+  exceeded: z.boolean(),
+});
+
+export const BudgetsResponseSchema = okResponse({
+  budgets: z.array(BudgetStatusSchema),
+});
+
+export const BudgetResponseSchema = okResponse({ budget: BudgetStatusSchema });
+
+export const ApiKeyObjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  roles: z.array(z.enum(API_KEY_ROLES)),
+  namespaces: z.array(z.string()),
+  profile: z.string().optional(),
+  rateLimit: z
+    .object({
+      requestsPerMinute: z.number().int().optional(),
+      tokensPerMinute: z.number().int().optional(),
+    })
+    .optional(),
+  createdAt: z.string(),
+  revokedAt: z.string().nullable(),
+});
+
+export const ApiKeysResponseSchema = okResponse({
+  apiKeys: z.array(ApiKeyObjectSchema),
+});
+
+export const ApiKeyResponseSchema = okResponse({ apiKey: ApiKeyObjectSchema });
+
+export const NewApiKeyResponseSchema = okResponse({
+  apiKey: ApiKeyObjectSchema,
+  // Shown once; only its hash is stored
+  secret: z.string(),
+});
+
+export type DocumentAttributes = z.infer<typeof DocumentAttributesSchema>;
+// Multipart fields, before coercion; metadata is sent JSON-encoded
+export type UploadRequest = Omit<z.input<typeof UploadSchema>, "metadata"> & {
+  metadata?: DocumentAttributes | DocumentAttributes[];
+};
+export type QueryRequest = z.input<typeof QuerySchema>;
+export type QueryResponse = z.infer<typeof QueryResponseSchema>;
+export type AdvancedQueryResponse = z.infer<typeof AdvancedQueryResponseSchema>;
+export type QueryStreamEvent = {
+  [E in keyof typeof QueryStreamEventSchemas]: {
+    event: E;
+    data: z.infer<(typeof QueryStreamEventSchemas)[E]>;
+  };
+}[keyof typeof QueryStreamEventSchemas];
+export type UploadResponse = z.infer<typeof UploadResponseSchema>;
+export type ChunkPreviewResponse = z.infer<typeof ChunkPreviewResponseSchema>;
+export type JobResponse = z.infer<typeof JobResponseSchema>;
+export type SessionResponse = z.infer<typeof SessionResponseSchema>;
+export type MessageResponse = z.infer<typeof MessageResponseSchema>;
+export type NamespacesResponse = z.infer<typeof NamespacesResponseSchema>;
+export type DeletedResponse = z.infer<typeof DeletedResponseSchema>;
+export type DocumentsResponse = z.infer<typeof DocumentsResponseSchema>;
+export type DocumentResponse = z.infer<typeof DocumentResponseSchema>;
+export type PromptSetsResponse = z.infer<typeof PromptSetsResponseSchema>;
+export type PromptSetResponse = z.infer<typeof PromptSetResponseSchema>;
+export type PromptSetDetailsResponse = z.infer<
+  typeof PromptSetDetailsResponseSchema
+>;
+export type UsageResponse = z.infer<typeof UsageResponseSchema>;
+export type BudgetsResponse = z.infer<typeof BudgetsResponseSchema>;
+export type BudgetResponse = z.infer<typeof BudgetResponseSchema>;
+export type ApiKeysResponse = z.infer<typeof ApiKeysResponseSchema>;
+export type ApiKeyResponse = z.infer<typeof ApiKeyResponseSchema>;
+export type NewApiKeyResponse = z.infer<typeof NewApiKeyResponseSchema>;
+export type ReadyResponse = z.infer<typeof ReadyResponseSchema>;
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
@@ -0,0 +1,80 @@
+import { createHash } from "node:crypto";
+import { readdir, rm } from "node:fs/promises";
+import path from "node:path";
+import { readJsonFile, writeJsonFile } from "../utils/json-file.ts";
+import { CacheBackend } from "./types.ts";
+
+interface StoredEntry {
+  key: string;
+  value: unknown;
+  expiresAt: number | null;
+}
+
+/**
+ * One JSON file per entry, named by the hash of its key, so cached answers
+ * survive restarts. Expired entries are removed when read and by `prune`.
+ */
+export function createFileCache(options: {
+  dir: string;
+}): CacheBackend & { prune(): Promise<number> } {
+  const fileFor = (key: string) =>
+    path.join(
+      options.dir,
+      `${createHash("sha256").update(key).digest("hex")}.json`
+    );
+
+  const expired = (entry: StoredEntry) =>
+    entry.expiresAt !== null && entry.expiresAt <= Date.now();
+
+  return {
+    name: "file",
+
+    async get<T>(key: string) {
+      const file = fileFor(key);
+      const entry = await readJsonFile<StoredEntry | null>(file, null);
+      if (!entry || entry.key !== key) return undefined;
+      if (expired(entry)) {
+        await rm(file, { force: true });
+        return undefined;
+      }
+      return entry.value as T;
+    },
+
+    async set(key, value, ttlMs) {
+      const entry: StoredEntry = {
+        key,
+        value,
+        expiresAt: ttlMs === undefined ? null : Date.now() + ttlMs,
+      };
+      await writeJsonFile(fileFor(key), entry);
+    },
+
+    async delete(key) {
+      await rm(fileFor(key), { force: true });
+    },
+
+    async prune() {
+      let removed = 0;
+      let files: string[];
+      try {
+        files = await readdir(options.dir);
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return 0;
+        throw error;
+      }
+
+      for (const name of files) {
+        if (!name.endsWith(".json")) continue;
+        const file = path.join(options.dir, name);
+        const entry = await readJsonFile<StoredEntry | null>(file, null).catch(
+          () => null
+        );
+        if (!entry || expired(entry)) {
+          await rm(file, { force: true });
+          removed++;
+        }
+      }
+      return removed;
+    },
+  };
+}
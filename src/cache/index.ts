@@ -0,0 +1,157 @@
+import { createHash, randomUUID } from "node:crypto";
+import path from "node:path";
+import { AdvancedRAGConfig } from "../config/advanced-rag.config.js";
+import { DATA_DIR } from "../utils/json-file.ts";
+import { logger } from "../utils/logger.ts";
+import { cacheLookups } from "../utils/metrics.ts";
+import { createFileCache } from "./file.ts";
+import { createMemoryCache } from "./memory.ts";
+import { CacheBackend } from "./types.ts";
+
+export type { CacheBackend } from "./types.ts";
+export { createFileCache } from "./file.ts";
+export { createMemoryCache } from "./memory.ts";
+
+export type CacheLayer = "expansion" | "search" | "answer";
+
+/**
+ * Hits and misses per layer for one request, returned in response metadata.
+ */
+export interface CacheReport {
+  enabled: boolean;
+  expansion: { hits: number; misses: number };
+  search: { hits: number; misses: number };
+  answer: { hits: number; misses: number };
+}
+
+export function createCacheReport(config: AdvancedRAGConfig): CacheReport {
+  return {
+    enabled: config.performance.cacheEnabled,
+    expansion: { hits: 0, misses: 0 },
+    search: { hits: 0, misses: 0 },
+    answer: { hits: 0, misses: 0 },
+  };
+}
+
+const CACHE_BACKEND = process.env.CACHE_BACKEND || "memory";
+
+let cache: CacheBackend | null = null;
+
+/**
+ * The backend selected by `CACHE_BACKEND` ("memory" or "file").
+ */
+export function getCache(): CacheBackend {
+  if (!cache) {
+    if (CACHE_BACKEND === "file") {
+      const fileCache = createFileCache({
+        dir: process.env.CACHE_DIR || path.join(DATA_DIR, "cache"),
+      });
+      fileCache
+        .prune()
+        .catch((error) => logger.warn("Failed to prune file cache", { error }));
+      cache = fileCache;
+    } else {
+      cache = createMemoryCache({
+        maxEntries: Number(process.env.CACHE_MAX_ENTRIES || 1000),
+      });
+    }
+  }
+  return cache;
+}
+
+/** Key order in objects does not change the key */
+function stableStringify(value: unknown): string {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  return `{${Object.entries(value)
+    .filter(([, child]) => child !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, child]) => `${JSON.stringify(key)}:${stableStringify(child)}`)
+    .join(",")}}`;
+}
+
+const generationKey = (namespace: string) => `generation:${namespace}`;
+
+/**
+ * Entries for a namespace are keyed by its current generation, a random token
+ * replaced whenever its documents change. Old entries are then never read
+ * again and age out. A missing token (evicted, or a fresh memory cache) is
+ * replaced too, which only costs misses.
+ */
+async function namespaceGeneration(namespace: string): Promise<string> {
+  const backend = getCache();
+  let generation = await backend.get<string>(generationKey(namespace));
+  if (!generation) {
+    generation = randomUUID();
+    await backend.set(generationKey(namespace), generation);
+  }
+  return generation;
+}
+
+/**
+ * Invalidate every cached search and answer for a namespace, after documents
+ * are added to or removed from it.
+ */
+export async function invalidateNamespace(namespace: string): Promise<void> {
+  try {
+    await getCache().set(generationKey(namespace), randomUUID());
+  } catch (error) {
+    logger.warn("Failed to invalidate cache", { namespace, error });
+  }
+}
+
+/**
+ * Return the cached value for `key` in a layer, or compute and store it
+ * (unless `cacheable` rejects it). Does nothing unless
+ * `performance.cacheEnabled` is set. Cache failures are logged and treated as
+ * misses, so they never fail a request.
+ */
+export async function cached<T>(
+  layer: CacheLayer,
+  entry: {
+    namespace?: string;
+    key: unknown;
+    cacheable?: (value: T) => boolean;
+  },
+  config: AdvancedRAGConfig,
+  report: CacheReport | undefined,
+  compute: () => Promise<T>
+): Promise<T> {
+  if (!config.performance.cacheEnabled) return compute();
+
+  let key: string | undefined;
+  try {
+    const generation = entry.namespace
+      ? await namespaceGeneration(entry.namespace)
+      : "";
+    key = `${layer}:${createHash("sha256")
+      .update(stableStringify([entry.namespace, generation, entry.key]))
+      .digest("hex")}`;
+
+    const hit = await getCache().get<T>(key);
+    if (hit !== undefined) {
+      cacheLookups.inc({ layer, result: "hit" });
+      if (report) report[layer].hits++;
+      return hit;
+    }
+  } catch (error) {
+    logger.warn("Cache read failed", { layer, error });
+  }
+
+  const value = await compute();
+  cacheLookups.inc({ layer, result: "miss" });
+  if (report) report[layer].misses++;
+
+  if (key && (entry.cacheable?.(value) ?? true)) {
+    const ttlMs = config.performance.cacheTtlSeconds[layer] * 1000;
+    await getCache()
+      .set(key, value, ttlMs)
+      .catch((error) => logger.warn("Cache write failed", { layer, error }));
+  }
+  return value;
+}
@@ -0,0 +1,49 @@
+import { CacheBackend } from "./types.ts";
+
+interface Entry {
+  value: unknown;
+  expiresAt: number | null;
+}
+
+/**
+ * In-process LRU cache. A Map iterates in insertion order, so re-inserting on
+ * every read keeps the least recently used entry first in line for eviction.
+ * Values are copied in and out, so callers never share cached objects.
+ */
+export function createMemoryCache(options: {
+  maxEntries: number;
+}): CacheBackend {
+  const entries = new Map<string, Entry>();
+
+  return {
+    name: "memory",
+
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      entries.delete(key);
+      if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+        return undefined;
+      }
+      entries.set(key, entry);
+      return structuredClone(entry.value) as T;
+    },
+
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, {
+        value: structuredClone(value),
+        expiresAt: ttlMs === undefined ? null : Date.now() + ttlMs,
+      });
+
+      while (entries.size > options.maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
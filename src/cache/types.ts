@@ -0,0 +1,8 @@
+export interface CacheBackend {
+  name: string;
+  /** The stored value, or undefined when missing or expired */
+  get<T>(key: string): Promise<T | undefined>;
+  /** Store a JSON-serializable value; without `ttlMs` it never expires */
+  set(key: string, value: unknown, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,187 @@
+import type {
+  AdvancedQueryResponse,
+  ErrorResponse,
+  JobResponse,
+  QueryRequest,
+  QueryResponse,
+  QueryStreamEvent,
+  UploadRequest,
+  UploadResponse,
+} from "../api/schemas.js";
+
+export type {
+  AdvancedQueryResponse,
+  DocumentAttributes,
+  ErrorResponse,
+  JobResponse,
+  QueryRequest,
+  QueryResponse,
+  QueryStreamEvent,
+  UploadRequest,
+  UploadResponse,
+} from "../api/schemas.js";
+
+/** A failed request, with the server's error body when it sent JSON */
+export class CognoAPIError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: ErrorResponse | string
+  ) {
+    super(typeof body === "string" ? body : body.error);
+    this.name = "CognoAPIError";
+  }
+}
+
+export interface UploadFile {
+  filename: string;
+  content: Blob | ArrayBuffer | Uint8Array;
+  /** Used when the filename's extension is not recognized */
+  mimetype?: string;
+}
+
+async function errorFrom(response: Response): Promise<CognoAPIError> {
+  const text = await response.text();
+  try {
+    return new CognoAPIError(response.status, JSON.parse(text));
+  } catch {
+    return new CognoAPIError(response.status, text || response.statusText);
+  }
+}
+
+/** Split a Server-Sent Events body into its events */
+async function* parseEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<QueryStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event: ")) event = line.slice(7);
+        else if (line.startsWith("data: ")) data.push(line.slice(6));
+      }
+      if (data.length > 0) {
+        yield { event, data: JSON.parse(data.join("\n")) } as QueryStreamEvent;
+      }
+    }
+    if (done) return;
+  }
+}
+
+/**
+ * Typed client for the Cogno API. Request and response types come from the
+ * same schemas as the server's OpenAPI document. `npm run build:client`
+ * builds it for import as `cogno-mvp/client`.
+ */
+export class CognoClient {
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly fetch: typeof fetch;
+
+  constructor(options: {
+    baseUrl: string;
+    apiKey?: string;
+    /** Defaults to the global fetch */
+    fetch?: typeof fetch;
+  }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.fetch = options.fetch ?? globalThis.fetch.bind(globalThis);
+  }
+
+  private async send(
+    method: string,
+    path: string,
+    init: { body?: BodyInit; json?: unknown; accept?: string } = {}
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      Accept: init.accept ?? "application/json",
+    };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+    if (init.json !== undefined) headers["Content-Type"] = "application/json";
+
+    const response = await this.fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: init.json !== undefined ? JSON.stringify(init.json) : init.body,
+    });
+    if (!response.ok) throw await errorFrom(response);
+    return response;
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    json?: unknown
+  ): Promise<T> {
+    const response = await this.send(method, path, { json });
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Start ingesting files; poll `getJob` with the returned job ID for
+   * progress.
+   */
+  async upload(
+    files: UploadFile[],
+    options: UploadRequest = {}
+  ): Promise<UploadResponse> {
+    const form = new FormData();
+    for (const file of files) {
+      // Buffers typed over shared memory are still accepted at runtime
+      const blob =
+        file.content instanceof Blob
+          ? file.content
+          : new Blob([file.content as BlobPart], { type: file.mimetype });
+      form.append("files", blob, file.filename);
+    }
+    for (const [field, value] of Object.entries(options)) {
+      if (value === undefined) continue;
+      form.append(
+        field,
+        typeof value === "object" ? JSON.stringify(value) : String(value)
+      );
+    }
+
+    const response = await this.send("POST", "/upload", { body: form });
+    return (await response.json()) as UploadResponse;
+  }
+
+  getJob(id: string): Promise<JobResponse> {
+    return this.request("GET", `/jobs/${encodeURIComponent(id)}`);
+  }
+
+  query(request: QueryRequest): Promise<QueryResponse> {
+    return this.request("POST", "/query", request);
+  }
+
+  queryAdvanced(request: QueryRequest): Promise<AdvancedQueryResponse> {
+    return this.request("POST", "/query/advanced", request);
+  }
+
+  /**
+   * Answer a query as it is generated: `sources`, `queries`, `token`s, an
+   * optional `revision`, then `final` (or `error`).
+   */
+  async *queryStream(request: QueryRequest): AsyncGenerator<QueryStreamEvent> {
+    const response = await this.send("POST", "/query/stream", {
+      json: request,
+      accept: "text/event-stream",
+    });
+    if (!response.body) {
+      throw new CognoAPIError(response.status, "Response has no body");
+    }
+    yield* parseEvents(response.body);
+  }
+}
@@ -1,48 +1,143 @@
-export interface AdvancedRAGConfig {
-  // Query expansion settings
-  queryExpansion: {
-    enabled: boolean;
-    numExpandedQueries: number;
-    temperature: number;
-  };
+import { z } from "zod";
 
-  // Self-critique settings
-  selfCritique: {
-    enabled: boolean;
-    threshold: number; // Score below which to attempt improvement
-    maxImprovementAttempts: number;
-  };
+const TemperatureSchema = z.number().min(0).max(2);
+const ModelSchema = z.string().min(1).max(128);
+const StageTimeoutSchema = z.number().int().min(100).max(600000).optional();
 
-  // Reranking settings (using Pinecone's built-in reranking)
-  reranking: {
-    enabled: boolean;
-    topN: number;
-    usePineconeReranking: boolean;
-  };
+export const AdvancedRAGConfigSchema = z
+  .object({
+    // Query expansion settings
+    queryExpansion: z
+      .object({
+        enabled: z.boolean(),
+        numExpandedQueries: z.number().int().min(1).max(10),
+        temperature: TemperatureSchema,
+      })
+      .strict(),
 
-  // Hybrid search settings
-  hybridSearch: {
-    enabled: boolean;
-    vectorWeight: number;
-    keywordWeight: number;
-    reciprocalRankFusion: boolean;
-    rrfK: number;
-  };
+    // Self-critique settings
+    selfCritique: z
+      .object({
+        enabled: z.boolean(),
+        threshold: z.number().min(0).max(1), // Score below which to attempt improvement
+        maxImprovementAttempts: z.number().int().min(0).max(5),
+      })
+      .strict(),
 
-  // Response synthesis settings
-  synthesis: {
-    maxContextDocuments: number;
-    temperature: number;
-    includeCitations: boolean;
-  };
+    // Reranking settings
+    reranking: z
+      .object({
+        enabled: z.boolean(),
+        topN: z.number().int().min(1).max(50),
+        usePineconeReranking: z.boolean(), // Rerank inside each Pinecone search as well
+        provider: z.enum(["pinecone", "llm", "lexical"]), // Reranker for the fused set
+        llmMode: z.enum(["pointwise", "listwise"]),
+      })
+      .strict(),
 
-  // Performance settings
-  performance: {
-    timeoutMs: number;
-    maxRetries: number;
-    cacheEnabled: boolean;
-  };
-}
+    // Hybrid search settings
+    hybridSearch: z
+      .object({
+        enabled: z.boolean(),
+        vectorWeight: z.number().min(0).max(1),
+        keywordWeight: z.number().min(0).max(1),
+        reciprocalRankFusion: z.boolean(),
+        rrfK: z.number().int().min(1).max(1000),
+      })
+      .strict(),
+
+    // Response synthesis settings
+    synthesis: z
+      .object({
+        enabled: z.boolean(), // Off for retrieval only: no answer, critique or citations
+        maxContextDocuments: z.number().int().min(1).max(50),
+        temperature: TemperatureSchema,
+        includeCitations: z.boolean(),
+      })
+      .strict(),
+
+    // Conversational session settings
+    conversation: z
+      .object({
+        maxHistoryTurns: z.number().int().min(0).max(50), // Prior turns passed to condensing and synthesis
+      })
+      .strict(),
+
+    // Prompt template set; unset uses the namespace's bound set, else "default"
+    promptSet: z
+      .string()
+      .regex(/^[a-z0-9][a-z0-9-]*$/)
+      .optional(),
+
+    // Language model settings
+    llm: z
+      .object({
+        provider: z.enum(["openai", "openai-compatible", "mock"]),
+        baseURL: z.string().url().optional(), // For openai-compatible servers, e.g. http://localhost:11434/v1
+        models: z
+          .object({
+            expansion: ModelSchema, // Query expansion and follow-up condensing
+            synthesis: ModelSchema,
+            critique: ModelSchema, // Critique, LLM reranking and citation checking
+          })
+          .strict(),
+      })
+      .strict(),
+
+    // Performance settings
+    performance: z
+      .object({
+        timeoutMs: z.number().int().min(1000).max(600000), // Per attempt of a pipeline stage
+        maxRetries: z.number().int().min(0).max(10),
+        // Stages that need a different timeout than `timeoutMs`
+        stageTimeoutMs: z
+          .object({
+            expansion: StageTimeoutSchema,
+            search: StageTimeoutSchema,
+            rerank: StageTimeoutSchema,
+            synthesis: StageTimeoutSchema,
+            critique: StageTimeoutSchema,
+            citations: StageTimeoutSchema,
+          })
+          .strict(),
+        cacheEnabled: z.boolean(),
+        // How long each cache layer keeps entries
+        cacheTtlSeconds: z
+          .object({
+            expansion: z.number().int().min(1).max(604800),
+            search: z.number().int().min(1).max(604800),
+            answer: z.number().int().min(1).max(604800),
+          })
+          .strict(),
+      })
+      .strict(),
+  })
+  .strict();
+
+export type AdvancedRAGConfig = z.infer<typeof AdvancedRAGConfigSchema>;
+
+/**
+ * Any subset of the config, as set by a profile. Unknown keys are rejected so
+ * a typo fails loudly instead of silently doing nothing.
+ */
+export const ConfigOverrideSchema = AdvancedRAGConfigSchema.deepPartial();
+
+export type ConfigOverride = z.infer<typeof ConfigOverrideSchema>;
+
+/**
+ * Overrides accepted on a single request. Which server the language model
+ * runs on is deployment configuration, so only the models can change.
+ */
+export const RequestConfigOverrideSchema = ConfigOverrideSchema.extend({
+  llm: z
+    .object({
+      models: AdvancedRAGConfigSchema.shape.llm.shape.models
+        .partial()
+        .optional(),
+    })
+    .strict()
+    .optional(),
+});
 
 export const defaultAdvancedRAGConfig: AdvancedRAGConfig = {
   queryExpansion: {
@@ -61,6 +156,8 @@ export const defaultAdvancedRAGConfig: AdvancedRAGConfig = {
     enabled: true,
     topN: 10,
     usePineconeReranking: true,
+    provider: "pinecone",
+    llmMode: "listwise",
   },
 
   hybridSearch: {
@@ -72,15 +169,38 @@ export const defaultAdvancedRAGConfig: AdvancedRAGConfig = {
   },
 
   synthesis: {
+    enabled: true,
     maxContextDocuments: 8,
     temperature: 0.2,
     includeCitations: true,
   },
 
+  conversation: {
+    maxHistoryTurns: 6,
+  },
+
+  llm: {
+    provider: "openai",
+    models: {
+      expansion: "gpt-4o-mini",
+      synthesis: "gpt-4o-mini",
+      critique: "gpt-4o-mini",
+    },
+  },
+
   performance: {
     timeoutMs: 30000,
     maxRetries: 3,
+    stageTimeoutMs: {
+      search: 10000,
+      synthesis: 60000,
+    },
     cacheEnabled: false,
+    cacheTtlSeconds: {
+      expansion: 86400,
+      search: 3600,
+      answer: 3600,
+    },
   },
 };
 
@@ -88,7 +208,8 @@ export const defaultAdvancedRAGConfig: AdvancedRAGConfig = {
  * Get configuration with environment variable overrides
  */
 export function getAdvancedRAGConfig(): AdvancedRAGConfig {
-  const config = { ...defaultAdvancedRAGConfig };
+  // Deep copy, so overrides never leak into the shared defaults
+  const config = structuredClone(defaultAdvancedRAGConfig);
 
   // Override with environment variables if present
   if (process.env.ADVANCED_RAG_QUERY_EXPANSION_ENABLED !== undefined) {
@@ -106,11 +227,27 @@ export function getAdvancedRAGConfig(): AdvancedRAGConfig {
       process.env.ADVANCED_RAG_RERANKING_ENABLED === "true";
   }
 
+  const reranker = process.env.ADVANCED_RAG_RERANKER;
+  if (reranker === "pinecone" || reranker === "llm" || reranker === "lexical") {
+    config.reranking.provider = reranker;
+  } else if (
+    process.env.VECTOR_STORE === "local" ||
+    !process.env.PINECONE_API_KEY
+  ) {
+    // Pinecone's hosted reranker needs Pinecone; offline, rank lexically
+    config.reranking.provider = "lexical";
+  }
+
   if (process.env.ADVANCED_RAG_HYBRID_SEARCH_ENABLED !== undefined) {
     config.hybridSearch.enabled =
       process.env.ADVANCED_RAG_HYBRID_SEARCH_ENABLED === "true";
   }
 
+  if (process.env.ADVANCED_RAG_CACHE_ENABLED !== undefined) {
+    config.performance.cacheEnabled =
+      process.env.ADVANCED_RAG_CACHE_ENABLED === "true";
+  }
+
   if (process.env.ADVANCED_RAG_CRITIQUE_THRESHOLD !== undefined) {
     const threshold = parseFloat(process.env.ADVANCED_RAG_CRITIQUE_THRESHOLD);
     if (!isNaN(threshold)) {
@@ -125,5 +262,65 @@ export function getAdvancedRAGConfig(): AdvancedRAGConfig {
     }
   }
 
+  const provider = process.env.LLM_PROVIDER;
+  if (
+    provider === "openai" ||
+    provider === "openai-compatible" ||
+    provider === "mock"
+  ) {
+    config.llm.provider = provider;
+  }
+
+  if (process.env.LLM_BASE_URL) {
+    config.llm.baseURL = process.env.LLM_BASE_URL;
+  }
+
+  // GPT_MODEL sets every stage; the per-stage variables take precedence
+  const defaultModel = process.env.GPT_MODEL;
+  config.llm.models = {
+    expansion:
+      process.env.LLM_EXPANSION_MODEL ||
+      defaultModel ||
+      config.llm.models.expansion,
+    synthesis:
+      process.env.LLM_SYNTHESIS_MODEL ||
+      defaultModel ||
+      config.llm.models.synthesis,
+    critique:
+      process.env.LLM_CRITIQUE_MODEL ||
+      defaultModel ||
+      config.llm.models.critique,
+  };
+
+  return config;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mergeInto(target: Record<string, unknown>, override: object) {
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    if (isPlainObject(value) && isPlainObject(target[key])) {
+      mergeInto(target[key] as Record<string, unknown>, value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+/**
+ * Deep-merge overrides onto a copy of `base`, later overrides winning.
+ * `base` is never modified.
+ */
+export function mergeConfig(
+  base: AdvancedRAGConfig,
+  ...overrides: Array<ConfigOverride | undefined>
+): AdvancedRAGConfig {
+  const config = structuredClone(base);
+  for (const override of overrides) {
+    if (override) mergeInto(config, override);
+  }
   return config;
 }
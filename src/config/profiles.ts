@@ -0,0 +1,98 @@
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import {
+  AdvancedRAGConfig,
+  ConfigOverride,
+  ConfigOverrideSchema,
+  getAdvancedRAGConfig,
+  mergeConfig,
+} from "./advanced-rag.config.js";
+
+const PROFILES_PATH =
+  process.env.ADVANCED_RAG_PROFILES ||
+  fileURLToPath(new URL("./profiles.json", import.meta.url));
+
+const ProfilesSchema = z.record(
+  z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Use lowercase names with dashes"),
+  ConfigOverrideSchema
+);
+
+let profiles: Record<string, ConfigOverride> | null = null;
+
+/**
+ * Named config overrides from `ADVANCED_RAG_PROFILES` (default
+ * `src/config/profiles.json`), read once and validated on first use.
+ */
+export function loadProfiles(): Record<string, ConfigOverride> {
+  if (!profiles) {
+    const parsed = ProfilesSchema.safeParse(
+      JSON.parse(readFileSync(PROFILES_PATH, "utf8"))
+    );
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid config profiles in ${PROFILES_PATH}: ${parsed.error.message}`
+      );
+    }
+    profiles = parsed.data;
+  }
+  return profiles;
+}
+
+export function hasProfile(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(loadProfiles(), name);
+}
+
+export function profileNames(): string[] {
+  return Object.keys(loadProfiles()).sort();
+}
+
+// Settings that multiply the LLM calls or tokens of a request
+function capCost(config: AdvancedRAGConfig, limits: AdvancedRAGConfig) {
+  config.performance.maxRetries = Math.min(
+    config.performance.maxRetries,
+    limits.performance.maxRetries
+  );
+  config.selfCritique.maxImprovementAttempts = Math.min(
+    config.selfCritique.maxImprovementAttempts,
+    limits.selfCritique.maxImprovementAttempts
+  );
+  config.queryExpansion.numExpandedQueries = Math.min(
+    config.queryExpansion.numExpandedQueries,
+    limits.queryExpansion.numExpandedQueries
+  );
+  config.reranking.topN = Math.min(
+    config.reranking.topN,
+    limits.reranking.topN
+  );
+  config.synthesis.maxContextDocuments = Math.min(
+    config.synthesis.maxContextDocuments,
+    limits.synthesis.maxContextDocuments
+  );
+}
+
+/**
+ * The config for one request: environment defaults, then the named profile,
+ * then the request's own overrides. With `limitCost`, the overrides can lower
+ * retries, corrective attempts, expanded queries and document counts but not
+ * raise them above the profile's.
+ */
+export function resolveConfig(
+  selection: {
+    profile?: string;
+    config?: ConfigOverride;
+    limitCost?: boolean;
+  } = {}
+): AdvancedRAGConfig {
+  const { profile, config } = selection;
+  if (profile && !hasProfile(profile)) {
+    throw new Error(`Unknown config profile: ${profile}`);
+  }
+  const base = mergeConfig(
+    getAdvancedRAGConfig(),
+    profile ? loadProfiles()[profile] : undefined
+  );
+  const resolved = mergeConfig(base, config);
+  if (selection.limitCost) capCost(resolved, base);
+  return resolved;
+}
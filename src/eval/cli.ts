@@ -0,0 +1,95 @@
+import "dotenv/config";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { resolveConfig } from "../config/profiles.ts";
+import { DATA_DIR } from "../utils/json-file.ts";
+import { compareToMarkdown, reportToMarkdown } from "./report.ts";
+import { EvalReport, loadGoldenSet, runEval } from "./run.ts";
+
+const USAGE = `Usage:
+  npm run eval -- --golden <set.jsonl> [--name <run>] [--namespace <ns>] [--k <n>] [--profile <name>] [--out <dir>]
+  npm run eval -- --compare <baseline.json> <candidate.json> [--out <dir>]
+
+Each golden line: {"question": "...", "expectedSources": ["file.pdf", {"source": "file.pdf", "chunkIndex": 3}], "referenceAnswer": "..."}`;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      golden: { type: "string" },
+      name: { type: "string" },
+      namespace: { type: "string", default: "default" },
+      k: { type: "string", default: "5" },
+      profile: { type: "string" },
+      out: { type: "string", default: path.join(DATA_DIR, "eval") },
+      compare: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  await mkdir(values.out, { recursive: true });
+
+  if (values.compare) {
+    if (positionals.length !== 2) throw new Error(USAGE);
+    const [baseline, candidate] = await Promise.all(
+      positionals.map(
+        async (file) => JSON.parse(await readFile(file, "utf8")) as EvalReport
+      )
+    );
+    const markdown = compareToMarkdown(baseline, candidate);
+    const outPath = path.join(
+      values.out,
+      `${baseline.name}-vs-${candidate.name}.md`
+    );
+    await writeFile(outPath, markdown);
+    console.log(markdown);
+    console.log(`Wrote ${outPath}`);
+    return;
+  }
+
+  if (!values.golden) throw new Error(USAGE);
+  const k = Number(values.k);
+  if (!Number.isInteger(k) || k < 1 || k > 50) {
+    throw new Error("--k must be an integer between 1 and 50");
+  }
+
+  const config = resolveConfig({ profile: values.profile });
+  const cases = await loadGoldenSet(values.golden);
+  const name =
+    values.name ??
+    `${path.basename(values.golden, ".jsonl")}-${new Date()
+      .toISOString()
+      .replace(/[:.]/g, "-")}`;
+
+  console.log(`Running ${cases.length} golden cases as "${name}"...`);
+  const report = await runEval(cases, {
+    name,
+    k,
+    namespace: values.namespace,
+    config,
+    onCase: (result) =>
+      console.log(
+        result.error
+          ? `✗ ${result.id}: ${result.error}`
+          : `✓ ${result.id}: recall ${result.metrics.recall.toFixed(2)}, RR ${result.metrics.reciprocalRank.toFixed(2)}, ${result.latencyMs} ms`
+      ),
+  });
+
+  const base = path.join(values.out, name);
+  const markdown = reportToMarkdown(report);
+  await writeFile(`${base}.json`, JSON.stringify(report, null, 2));
+  await writeFile(`${base}.md`, markdown);
+  console.log(`\n${markdown}`);
+  console.log(`Wrote ${base}.json and ${base}.md`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,130 @@
+import { tokenize } from "../services/keyword-index.ts";
+
+/**
+ * An expected source: a whole file by name, or one chunk of it.
+ */
+export interface ExpectedSource {
+  source: string;
+  chunkIndex?: number;
+}
+
+export interface RetrievedSource {
+  source?: string;
+  chunkIndex?: number;
+}
+
+function matches(retrieved: RetrievedSource, expected: ExpectedSource) {
+  return (
+    retrieved.source === expected.source &&
+    (expected.chunkIndex === undefined ||
+      retrieved.chunkIndex === expected.chunkIndex)
+  );
+}
+
+export function isRelevant(
+  retrieved: RetrievedSource,
+  expected: ExpectedSource[]
+): boolean {
+  return expected.some((item) => matches(retrieved, item));
+}
+
+/**
+ * Binary gain per rank: a hit scores 1 only for the first retrieved chunk that
+ * satisfies a not-yet-satisfied expected source, so five chunks of one
+ * expected file count once.
+ */
+function gains(
+  retrieved: RetrievedSource[],
+  expected: ExpectedSource[],
+  k: number
+): number[] {
+  const satisfied = new Set<number>();
+  return retrieved.slice(0, k).map((item) => {
+    const index = expected.findIndex(
+      (candidate, i) => !satisfied.has(i) && matches(item, candidate)
+    );
+    if (index === -1) return 0;
+    satisfied.add(index);
+    return 1;
+  });
+}
+
+/** Share of expected sources found in the top `k` */
+export function recallAtK(
+  retrieved: RetrievedSource[],
+  expected: ExpectedSource[],
+  k: number
+): number {
+  if (expected.length === 0) return 0;
+  const found = gains(retrieved, expected, k).reduce((a, b) => a + b, 0);
+  return found / expected.length;
+}
+
+/** 1 / rank of the first relevant result, 0 when none is retrieved */
+export function reciprocalRank(
+  retrieved: RetrievedSource[],
+  expected: ExpectedSource[]
+): number {
+  const rank = retrieved.findIndex((item) => isRelevant(item, expected));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+export function ndcgAtK(
+  retrieved: RetrievedSource[],
+  expected: ExpectedSource[],
+  k: number
+): number {
+  const dcg = gains(retrieved, expected, k).reduce(
+    (sum, gain, i) => sum + gain / Math.log2(i + 2),
+    0
+  );
+  let ideal = 0;
+  for (let i = 0; i < Math.min(k, expected.length); i++) {
+    ideal += 1 / Math.log2(i + 2);
+  }
+  return ideal === 0 ? 0 : dcg / ideal;
+}
+
+/**
+ * Token-level F1 between an answer and a reference answer, a cheap
+ * deterministic proxy for answer correctness.
+ */
+export function tokenF1(answer: string, reference: string): number {
+  const answerTokens = tokenize(answer);
+  const referenceTokens = tokenize(reference);
+  if (answerTokens.length === 0 || referenceTokens.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const token of referenceTokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (const token of answerTokens) {
+    const remaining = counts.get(token) ?? 0;
+    if (remaining > 0) {
+      overlap++;
+      counts.set(token, remaining - 1);
+    }
+  }
+  if (overlap === 0) return 0;
+
+  const precision = overlap / answerTokens.length;
+  const recall = overlap / referenceTokens.length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+export function mean(values: number[]): number {
+  return values.length === 0
+    ? 0
+    : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(
+    sorted.length - 1,
+    Math.ceil((p / 100) * sorted.length) - 1
+  );
+  return sorted[Math.max(0, index)];
+}
@@ -0,0 +1,149 @@
+import { EvalReport, EvalSummary } from "./run.ts";
+
+const SUMMARY_ROWS: Array<{
+  key: keyof EvalSummary;
+  label: (k: number) => string;
+  unit?: "ms";
+  /** Lower is better */
+  inverse?: boolean;
+}> = [
+  { key: "recall", label: (k) => `Recall@${k}` },
+  { key: "mrr", label: () => "MRR" },
+  { key: "ndcg", label: (k) => `nDCG@${k}` },
+  { key: "citationPrecision", label: () => "Citation precision" },
+  { key: "quoteVerification", label: () => "Verified quotes" },
+  { key: "faithfulness", label: () => "Faithfulness" },
+  { key: "referenceF1", label: () => "Reference F1" },
+  {
+    key: "latencyP50Ms",
+    label: () => "Latency p50",
+    unit: "ms",
+    inverse: true,
+  },
+  {
+    key: "latencyP95Ms",
+    label: () => "Latency p95",
+    unit: "ms",
+    inverse: true,
+  },
+];
+
+function formatValue(value: number | null, unit?: "ms"): string {
+  if (value === null) return "n/a";
+  return unit === "ms" ? `${Math.round(value)} ms` : value.toFixed(3);
+}
+
+function formatDelta(
+  before: number | null,
+  after: number | null,
+  row: (typeof SUMMARY_ROWS)[number]
+): string {
+  if (before === null || after === null) return "n/a";
+  const delta = after - before;
+  if (Math.abs(delta) < 1e-9) return "=";
+
+  const better = row.inverse ? delta < 0 : delta > 0;
+  const sign = delta > 0 ? "+" : "-";
+  const magnitude =
+    row.unit === "ms"
+      ? `${Math.round(Math.abs(delta))} ms`
+      : Math.abs(delta).toFixed(3);
+  return `${sign}${magnitude} ${better ? "✅" : "⚠️"}`;
+}
+
+function skippedNote(summary: EvalSummary): string {
+  return summary.faithfulnessSkipped > 0
+    ? `, faithfulness unscored for ${summary.faithfulnessSkipped}`
+    : "";
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s+/g, " ");
+}
+
+/**
+ * Flatten nested config into dotted keys, for diffing two runs.
+ */
+function flatten(value: unknown, prefix = ""): Record<string, string> {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return { [prefix]: JSON.stringify(value) };
+  }
+  return Object.assign(
+    {},
+    ...Object.entries(value).map(([key, child]) =>
+      flatten(child, prefix ? `${prefix}.${key}` : key)
+    )
+  );
+}
+
+export function reportToMarkdown(report: EvalReport): string {
+  const { summary } = report;
+  const lines = [
+    `# Eval: ${report.name}`,
+    "",
+    `${summary.cases} cases, ${summary.failed} failed${skippedNote(summary)}, k = ${report.k}, run ${report.createdAt}`,
+    "",
+    "| Metric | Value |",
+    "| --- | --- |",
+    ...SUMMARY_ROWS.map(
+      (row) =>
+        `| ${row.label(report.k)} | ${formatValue(summary[row.key], row.unit)} |`
+    ),
+    "",
+    "## Cases",
+    "",
+    `| ID | Question | Recall@${report.k} | RR | nDCG@${report.k} | Citation precision | Faithfulness | Latency |`,
+    "| --- | --- | --- | --- | --- | --- | --- | --- |",
+    ...report.cases.map(({ id, question, metrics, latencyMs, error }) =>
+      error
+        ? `| ${id} | ${escapeCell(question)} | error: ${escapeCell(error)} | | | | | |`
+        : `| ${id} | ${escapeCell(question)} | ${formatValue(metrics.recall)} | ${formatValue(metrics.reciprocalRank)} | ${formatValue(metrics.ndcg)} | ${formatValue(metrics.citationPrecision)} | ${formatValue(metrics.faithfulness)} | ${formatValue(latencyMs, "ms")} |`
+    ),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Side-by-side summary of two runs, with the config settings that differ.
+ */
+export function compareToMarkdown(
+  baseline: EvalReport,
+  candidate: EvalReport
+): string {
+  const before = flatten(baseline.config);
+  const after = flatten(candidate.config);
+  const changed = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((key) => before[key] !== after[key])
+    .sort();
+
+  const lines = [
+    `# Eval: ${baseline.name} vs ${candidate.name}`,
+    "",
+    `| Metric | ${baseline.name} | ${candidate.name} | Change |`,
+    "| --- | --- | --- | --- |",
+    ...SUMMARY_ROWS.map((row) => {
+      const a = baseline.summary[row.key];
+      const b = candidate.summary[row.key];
+      return `| ${row.label(candidate.k)} | ${formatValue(a, row.unit)} | ${formatValue(b, row.unit)} | ${formatDelta(a, b, row)} |`;
+    }),
+    "",
+    `${baseline.name}: ${baseline.summary.cases} cases, ${baseline.summary.failed} failed${skippedNote(baseline.summary)}. ${candidate.name}: ${candidate.summary.cases} cases, ${candidate.summary.failed} failed${skippedNote(candidate.summary)}.`,
+    "",
+    "## Config changes",
+    "",
+  ];
+
+  if (baseline.k !== candidate.k) {
+    lines.push(`- k: ${baseline.k} → ${candidate.k}`);
+  }
+  if (changed.length === 0 && baseline.k === candidate.k) {
+    lines.push("No differences.");
+  }
+  for (const key of changed) {
+    lines.push(
+      `- \`${key}\`: ${before[key] ?? "unset"} → ${after[key] ?? "unset"}`
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,295 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import {
+  AdvancedRAGConfig,
+  getAdvancedRAGConfig,
+} from "../config/advanced-rag.config.js";
+import { advancedRAGQuery, requestCritique } from "../services/advanced-rag.ts";
+import { defaultPromptTemplates } from "../services/prompts.ts";
+import { advancedSearchOptions, searchMatches } from "../services/search.ts";
+import { logger } from "../utils/logger.ts";
+import {
+  ExpectedSource,
+  isRelevant,
+  mean,
+  ndcgAtK,
+  percentile,
+  recallAtK,
+  reciprocalRank,
+  RetrievedSource,
+  tokenF1,
+} from "./metrics.ts";
+
+// A bare string names an expected file; objects can pin a single chunk
+const GoldenCaseSchema = z.object({
+  id: z.string().optional(),
+  question: z.string().min(1),
+  expectedSources: z
+    .array(
+      z.union([
+        z
+          .string()
+          .min(1)
+          .transform((source): ExpectedSource => ({ source })),
+        z.object({
+          source: z.string().min(1),
+          chunkIndex: z.number().int().min(0).optional(),
+        }),
+      ])
+    )
+    .min(1),
+  referenceAnswer: z.string().optional(),
+  namespace: z.string().min(1).optional(),
+});
+
+export type GoldenCase = z.infer<typeof GoldenCaseSchema>;
+
+export interface CaseMetrics {
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+  /** Share of citations pointing at an expected source; null without citations */
+  citationPrecision: number | null;
+  /** Share of cited quotes found verbatim in their chunk */
+  quoteVerification: number | null;
+  /**
+   * Critique score for the final answer against its context; null when there
+   * was no answer or the critique failed, so no score was measured
+   */
+  faithfulness: number | null;
+  /** Token F1 against the reference answer, when one is given */
+  referenceF1: number | null;
+}
+
+export interface CaseResult {
+  id: string;
+  question: string;
+  namespace: string;
+  retrieved: RetrievedSource[];
+  answer: string;
+  metrics: CaseMetrics;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface EvalSummary {
+  cases: number;
+  failed: number;
+  recall: number;
+  mrr: number;
+  ndcg: number;
+  citationPrecision: number | null;
+  quoteVerification: number | null;
+  /** Mean over the cases with a measured score */
+  faithfulness: number | null;
+  /** Cases left out of `faithfulness`, having no answer or a failed critique */
+  faithfulnessSkipped: number;
+  referenceF1: number | null;
+  latencyP50Ms: number;
+  latencyP95Ms: number;
+}
+
+export interface EvalReport {
+  name: string;
+  createdAt: string;
+  k: number;
+  config: AdvancedRAGConfig;
+  summary: EvalSummary;
+  cases: CaseResult[];
+}
+
+/**
+ * Read a JSONL golden set, one case per line. Blank lines are skipped.
+ */
+export async function loadGoldenSet(path: string): Promise<GoldenCase[]> {
+  const lines = (await readFile(path, "utf8")).split("\n");
+  const cases: GoldenCase[] = [];
+
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    const parsed = GoldenCaseSchema.safeParse(JSON.parse(line));
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid golden case on line ${i + 1}: ${parsed.error.message}`
+      );
+    }
+    cases.push(parsed.data);
+  });
+
+  return cases;
+}
+
+function nullableMean(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length === 0 ? null : mean(present);
+}
+
+async function measureFaithfulness(
+  question: string,
+  answer: string,
+  context: string[],
+  config: AdvancedRAGConfig
+): Promise<number | null> {
+  try {
+    const critique = await requestCritique(
+      question,
+      answer,
+      context,
+      config,
+      defaultPromptTemplates()
+    );
+    return critique.score;
+  } catch (error) {
+    logger.warn("Faithfulness critique failed, leaving it unscored", {
+      question,
+      error,
+    });
+    return null;
+  }
+}
+
+async function runCase(
+  goldenCase: GoldenCase,
+  index: number,
+  options: { k: number; namespace: string; config: AdvancedRAGConfig }
+): Promise<CaseResult> {
+  const { question, expectedSources, referenceAnswer } = goldenCase;
+  const namespace = goldenCase.namespace ?? options.namespace;
+  const id = goldenCase.id ?? String(index + 1);
+
+  // Same steps as /query/advanced; latency covers retrieval and generation
+  const started = Date.now();
+  const matches = await searchMatches(
+    namespace,
+    question,
+    advancedSearchOptions(options.k),
+    options.config
+  );
+  const result =
+    matches.length > 0
+      ? await advancedRAGQuery(question, matches, options.k, namespace, {
+          config: options.config,
+        })
+      : undefined;
+  const latencyMs = Date.now() - started;
+
+  // Reranking keeps only `reranking.topN` candidates, so the rest follow in
+  // retrieval order; otherwise a k above topN could never be reached
+  const reranked = result?.rerankedDocuments ?? [];
+  const rerankedIndexes = new Set(reranked.map((doc) => doc.index));
+  const retrieved = [
+    ...reranked.map((doc) => result!.sources[doc.index]),
+    ...(result?.sources ?? []).filter((_, i) => !rerankedIndexes.has(i)),
+  ];
+  const answer = result?.finalAnswer ?? "";
+
+  const citations = (result?.claims ?? []).flatMap((claim) => claim.citations);
+  const context = (result?.rerankedDocuments ?? [])
+    .slice(0, options.config.synthesis.maxContextDocuments)
+    .map((doc) => doc.text);
+  const faithfulness = answer
+    ? await measureFaithfulness(question, answer, context, options.config)
+    : null;
+
+  return {
+    id,
+    question,
+    namespace,
+    retrieved: retrieved.slice(0, options.k),
+    answer,
+    latencyMs,
+    metrics: {
+      recall: recallAtK(retrieved, expectedSources, options.k),
+      reciprocalRank: reciprocalRank(retrieved, expectedSources),
+      ndcg: ndcgAtK(retrieved, expectedSources, options.k),
+      citationPrecision:
+        citations.length > 0
+          ? citations.filter((c) => isRelevant(c, expectedSources)).length /
+            citations.length
+          : null,
+      quoteVerification:
+        citations.length > 0
+          ? citations.filter((c) => c.verified).length / citations.length
+          : null,
+      faithfulness,
+      referenceF1:
+        referenceAnswer !== undefined ? tokenF1(answer, referenceAnswer) : null,
+    },
+  };
+}
+
+/**
+ * Run every golden case through the `/query/advanced` pipeline, one at a
+ * time, and score retrieval and answers. Failed cases score zero.
+ * `config` defaults to the environment's.
+ */
+export async function runEval(
+  cases: GoldenCase[],
+  options: {
+    name: string;
+    k: number;
+    namespace: string;
+    config?: AdvancedRAGConfig;
+    onCase?: (result: CaseResult) => void;
+  }
+): Promise<EvalReport> {
+  const config = options.config ?? getAdvancedRAGConfig();
+  const results: CaseResult[] = [];
+
+  for (let i = 0; i < cases.length; i++) {
+    let result: CaseResult;
+    try {
+      result = await runCase(cases[i], i, { ...options, config });
+    } catch (error) {
+      result = {
+        id: cases[i].id ?? String(i + 1),
+        question: cases[i].question,
+        namespace: cases[i].namespace ?? options.namespace,
+        retrieved: [],
+        answer: "",
+        latencyMs: 0,
+        metrics: {
+          recall: 0,
+          reciprocalRank: 0,
+          ndcg: 0,
+          citationPrecision: null,
+          quoteVerification: null,
+          faithfulness: 0,
+          referenceF1: null,
+        },
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    results.push(result);
+    options.onCase?.(result);
+  }
+
+  const metrics = results.map((result) => result.metrics);
+  const latencies = results
+    .filter((result) => !result.error)
+    .map((result) => result.latencyMs);
+
+  return {
+    name: options.name,
+    createdAt: new Date().toISOString(),
+    k: options.k,
+    config,
+    summary: {
+      cases: results.length,
+      failed: results.filter((result) => result.error).length,
+      recall: mean(metrics.map((m) => m.recall)),
+      mrr: mean(metrics.map((m) => m.reciprocalRank)),
+      ndcg: mean(metrics.map((m) => m.ndcg)),
+      citationPrecision: nullableMean(metrics.map((m) => m.citationPrecision)),
+      quoteVerification: nullableMean(metrics.map((m) => m.quoteVerification)),
+      faithfulness: nullableMean(metrics.map((m) => m.faithfulness)),
+      faithfulnessSkipped: results.filter(
+        (result) => !result.error && result.metrics.faithfulness === null
+      ).length,
+      referenceF1: nullableMean(metrics.map((m) => m.referenceF1)),
+      latencyP50Ms: percentile(latencies, 50),
+      latencyP95Ms: percentile(latencies, 95),
+    },
+    cases: results,
+  };
+}
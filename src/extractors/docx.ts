@@ -0,0 +1,18 @@
+import mammoth from "mammoth";
+import { htmlToStructuredText } from "./html.ts";
+import { ExtractedDocument, Extractor } from "./types.ts";
+
+export const docxExtractor: Extractor = {
+  name: "docx",
+  mimetypes: [
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ],
+  extensions: [".docx"],
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    // Going through HTML keeps Word heading styles as h1-h6 sections
+    const { value: html } = await mammoth.convertToHtml({ buffer });
+    const { text, sections } = htmlToStructuredText(html);
+
+    return { text, sections, metadata: {} };
+  },
+};
@@ -0,0 +1,94 @@
+import JSZip from "jszip";
+import path from "node:path";
+import { htmlToStructuredText } from "./html.ts";
+import { DocumentSection, ExtractedDocument, Extractor } from "./types.ts";
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  return match ? decodeEntities(match[1]) : undefined;
+}
+
+function dublinCore(opf: string, field: string): string | undefined {
+  const match = opf.match(
+    new RegExp(`<dc:${field}\\b[^>]*>([\\s\\S]*?)</dc:${field}>`, "i")
+  );
+  return match ? decodeEntities(match[1].trim()) : undefined;
+}
+
+async function readEntry(zip: JSZip, entry: string): Promise<string> {
+  const file = zip.file(entry);
+  if (!file) throw new Error(`EPUB is missing ${entry}`);
+  return file.async("string");
+}
+
+export const epubExtractor: Extractor = {
+  name: "epub",
+  mimetypes: ["application/epub+zip"],
+  extensions: [".epub"],
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const zip = await JSZip.loadAsync(buffer);
+
+    const container = await readEntry(zip, "META-INF/container.xml");
+    const rootfileTag = container.match(/<rootfile\b[^>]*>/i)?.[0];
+    const opfPath = rootfileTag && attribute(rootfileTag, "full-path");
+    if (!opfPath) throw new Error("EPUB container has no rootfile");
+
+    const opf = await readEntry(zip, opfPath);
+    const opfDir = path.posix.dirname(opfPath);
+
+    const manifest = new Map<string, string>();
+    for (const [tag] of opf.matchAll(/<item\b[^>]*>/gi)) {
+      const id = attribute(tag, "id");
+      const href = attribute(tag, "href");
+      if (id && href) manifest.set(id, href);
+    }
+
+    // Read chapters in spine (reading) order, shifting section offsets as we go
+    const parts: string[] = [];
+    const sections: DocumentSection[] = [];
+    let length = 0;
+
+    for (const [tag] of opf.matchAll(/<itemref\b[^>]*>/gi)) {
+      const href = manifest.get(attribute(tag, "idref") ?? "");
+      if (!href) continue;
+
+      const entry = path.posix.normalize(
+        path.posix.join(opfDir, decodeURIComponent(href))
+      );
+      const file = zip.file(entry);
+      if (!file) continue;
+
+      const chapter = htmlToStructuredText(await file.async("string"));
+      if (!chapter.text) continue;
+
+      if (parts.length > 0) {
+        parts.push("\n\n");
+        length += 2;
+      }
+      for (const section of chapter.sections) {
+        sections.push({ ...section, offset: section.offset + length });
+      }
+      parts.push(chapter.text);
+      length += chapter.text.length;
+    }
+
+    const metadata: Record<string, string | number> = {};
+    const title = dublinCore(opf, "title");
+    const author = dublinCore(opf, "creator");
+    const language = dublinCore(opf, "language");
+    if (title) metadata.title = title;
+    if (author) metadata.author = author;
+    if (language) metadata.language = language;
+
+    return { text: parts.join(""), sections, metadata };
+  },
+};
@@ -0,0 +1,74 @@
+import { convert } from "html-to-text";
+import { DocumentSection, ExtractedDocument, Extractor } from "./types.ts";
+
+const HEADING_PATTERN = /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi;
+const TITLE_PATTERN = /<title\b[^>]*>([\s\S]*?)<\/title>/i;
+
+function toText(html: string): string {
+  return convert(html, {
+    wordwrap: false,
+    selectors: [
+      { selector: "a", options: { ignoreHref: true } },
+      { selector: "img", format: "skip" },
+    ],
+  }).trim();
+}
+
+/**
+ * Convert HTML to text, recording each h1-h6 heading as a section at its
+ * offset in the output. Shared by the HTML, EPUB and DOCX extractors.
+ */
+export function htmlToStructuredText(html: string): {
+  text: string;
+  sections: DocumentSection[];
+} {
+  const body = html.replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, "");
+  const parts: string[] = [];
+  const sections: DocumentSection[] = [];
+  let length = 0;
+  let cursor = 0;
+
+  const append = (segment: string) => {
+    if (!segment) return;
+    if (parts.length > 0) {
+      parts.push("\n\n");
+      length += 2;
+    }
+    parts.push(segment);
+    length += segment.length;
+  };
+
+  for (const match of body.matchAll(HEADING_PATTERN)) {
+    append(toText(body.slice(cursor, match.index)));
+
+    const title = toText(match[2]).replace(/\s+/g, " ");
+    if (title) {
+      sections.push({
+        title,
+        level: Number(match[1]),
+        offset: parts.length > 0 ? length + 2 : 0,
+      });
+      append(title);
+    }
+    cursor = match.index! + match[0].length;
+  }
+  append(toText(body.slice(cursor)));
+
+  return { text: parts.join(""), sections };
+}
+
+export const htmlExtractor: Extractor = {
+  name: "html",
+  mimetypes: ["text/html", "application/xhtml+xml"],
+  extensions: [".html", ".htm", ".xhtml"],
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const html = buffer.toString("utf8");
+    const { text, sections } = htmlToStructuredText(html);
+
+    const metadata: Record<string, string | number> = {};
+    const title = html.match(TITLE_PATTERN)?.[1];
+    if (title) metadata.title = toText(title);
+
+    return { text, sections, metadata };
+  },
+};
@@ -0,0 +1,51 @@
+import path from "node:path";
+import { docxExtractor } from "./docx.ts";
+import { epubExtractor } from "./epub.ts";
+import { htmlExtractor } from "./html.ts";
+import { markdownExtractor } from "./markdown.ts";
+import { pdfExtractor } from "./pdf.ts";
+import { textExtractor } from "./text.ts";
+import { Extractor } from "./types.ts";
+
+export type {
+  DocumentPage,
+  DocumentSection,
+  ExtractedDocument,
+  Extractor,
+} from "./types.ts";
+export { locateChunk } from "./locate.ts";
+export type { ChunkLocation } from "./locate.ts";
+
+const extractors: Extractor[] = [];
+
+export function registerExtractor(extractor: Extractor) {
+  extractors.push(extractor);
+}
+
+/**
+ * Resolve the extractor for an upload. The file extension wins over the
+ * mimetype, since clients often send Markdown or EPUB as text/plain or
+ * application/octet-stream.
+ */
+export function findExtractor(
+  mimetype: string,
+  filename: string
+): Extractor | undefined {
+  const extension = path.extname(filename).toLowerCase();
+
+  return (
+    extractors.find((e) => e.extensions.includes(extension)) ??
+    extractors.find((e) => e.mimetypes.includes(mimetype))
+  );
+}
+
+export function supportedExtensions(): string[] {
+  return extractors.flatMap((e) => e.extensions);
+}
+
+registerExtractor(pdfExtractor);
+registerExtractor(docxExtractor);
+registerExtractor(epubExtractor);
+registerExtractor(htmlExtractor);
+registerExtractor(markdownExtractor);
+registerExtractor(textExtractor);
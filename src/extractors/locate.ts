@@ -0,0 +1,47 @@
+import { ExtractedDocument } from "./types.ts";
+
+export interface ChunkLocation {
+  pageStart?: number;
+  pageEnd?: number;
+  sectionPath: string[];
+}
+
+function pageAt(document: ExtractedDocument, offset: number) {
+  let page: number | undefined;
+  for (const candidate of document.pages ?? []) {
+    if (candidate.offset > offset) break;
+    page = candidate.number;
+  }
+  return page;
+}
+
+/**
+ * Heading trail (outermost first) in effect at `offset`, e.g.
+ * ["Part I", "Question 2", "Article 3"].
+ */
+export function sectionPathAt(
+  document: ExtractedDocument,
+  offset: number
+): string[] {
+  const stack: Array<{ title: string; level: number }> = [];
+  for (const section of document.sections) {
+    if (section.offset > offset) break;
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) {
+      stack.pop();
+    }
+    stack.push(section);
+  }
+  return stack.map((section) => section.title);
+}
+
+export function locateChunk(
+  document: ExtractedDocument,
+  start: number,
+  end: number
+): ChunkLocation {
+  return {
+    pageStart: pageAt(document, start),
+    pageEnd: pageAt(document, Math.max(start, end - 1)),
+    sectionPath: sectionPathAt(document, start),
+  };
+}
@@ -0,0 +1,34 @@
+import { DocumentSection, ExtractedDocument, Extractor } from "./types.ts";
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+export const markdownExtractor: Extractor = {
+  name: "markdown",
+  mimetypes: ["text/markdown", "text/x-markdown"],
+  extensions: [".md", ".markdown"],
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const lines = buffer.toString("utf8").replace(/\r\n/g, "\n").split("\n");
+    const sections: DocumentSection[] = [];
+    const output: string[] = [];
+    let offset = 0;
+    let inFence = false;
+
+    for (const line of lines) {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+      const heading = inFence ? null : line.match(HEADING_PATTERN);
+      const text = heading ? heading[2] : line;
+      if (heading) {
+        sections.push({ title: text, level: heading[1].length, offset });
+      }
+      output.push(text);
+      offset += text.length + 1;
+    }
+
+    const metadata: Record<string, string | number> = {};
+    const title = sections.find((section) => section.level === 1)?.title;
+    if (title) metadata.title = title;
+
+    return { text: output.join("\n"), sections, metadata };
+  },
+};
@@ -0,0 +1,103 @@
+/// <reference path="../types/pdf-parse.d.ts" />
+import pdf from "pdf-parse/lib/pdf-parse.js";
+import {
+  DocumentPage,
+  DocumentSection,
+  ExtractedDocument,
+  Extractor,
+} from "./types.ts";
+
+// Scholastic and book-style headings, e.g. "QUESTION 2", "Article 3. Whether
+// God exists?", "Chapter XIII". The number is the nesting level. A title may
+// only follow the number after a separator, which keeps prose like "Section 9
+// and an outlook..." out.
+const HEADING_PATTERNS: Array<[RegExp, number]> = [
+  [/^(part|book|treatise)\s+([ivxlcdm]+|\d+)\b\s*([.:\u2014-].*)?$/i, 1],
+  [/^(question|chapter|lecture)\s+([ivxlcdm]+|\d+)\b\s*([.:\u2014-].*)?$/i, 2],
+  [/^(article|section)\s+([ivxlcdm]+|\d+)\b\s*([.:\u2014-].*)?$/i, 3],
+];
+
+// Wrapped prose lines run long and break mid-sentence; headings rarely do
+function looksLikeProse(line: string): boolean {
+  return line.length >= 60 && /[a-z,]$/.test(line);
+}
+
+function detectHeadings(text: string, baseOffset: number): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let offset = baseOffset;
+
+  for (const line of text.split("\n")) {
+    const title = line.trim().replace(/\s+/g, " ");
+    if (title.length <= 120 && !looksLikeProse(title)) {
+      const match = HEADING_PATTERNS.find(([pattern]) => pattern.test(title));
+      if (match) {
+        sections.push({
+          title,
+          level: match[1],
+          offset: offset + line.indexOf(title[0]),
+        });
+      }
+    }
+    offset += line.length + 1;
+  }
+  return sections;
+}
+
+// Same text assembly as pdf-parse's default renderer, so line breaks match
+async function renderPage(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  let lastY: number | undefined;
+  let text = "";
+  for (const item of textContent.items) {
+    if (lastY === item.transform[5] || !lastY) {
+      text += item.str;
+    } else {
+      text += "\n" + item.str;
+    }
+    lastY = item.transform[5];
+  }
+  return text;
+}
+
+export const pdfExtractor: Extractor = {
+  name: "pdf",
+  mimetypes: ["application/pdf"],
+  extensions: [".pdf"],
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    // pdf-parse renders pages one at a time in order
+    const pageTexts: string[] = [];
+    const pdfData = await pdf(buffer, {
+      pagerender: async (pageData: any) => {
+        const text = await renderPage(pageData);
+        pageTexts.push(text);
+        return text;
+      },
+    });
+
+    const pages: DocumentPage[] = [];
+    const sections: DocumentSection[] = [];
+    let text = "";
+    pageTexts.forEach((pageText, i) => {
+      if (i > 0) text += "\n\n";
+      pages.push({ number: i + 1, offset: text.length });
+      sections.push(...detectHeadings(pageText, text.length));
+      text += pageText;
+    });
+
+    const metadata: Record<string, string | number> = {
+      pageCount: pdfData.numpages,
+    };
+    if (typeof pdfData.info?.Title === "string" && pdfData.info.Title) {
+      metadata.title = pdfData.info.Title;
+    }
+    if (typeof pdfData.info?.Author === "string" && pdfData.info.Author) {
+      metadata.author = pdfData.info.Author;
+    }
+
+    return { text, sections, pages, metadata };
+  },
+};
@@ -0,0 +1,10 @@
+import { ExtractedDocument, Extractor } from "./types.ts";
+
+export const textExtractor: Extractor = {
+  name: "text",
+  mimetypes: ["text/plain"],
+  extensions: [".txt", ".text"],
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    return { text: buffer.toString("utf8"), sections: [], metadata: {} };
+  },
+};
@@ -0,0 +1,31 @@
+export interface DocumentSection {
+  title: string;
+  level: number;
+  /** Character offset of the section heading within the extracted text */
+  offset: number;
+}
+
+export interface DocumentPage {
+  number: number;
+  /** Character offset where the page starts within the extracted text */
+  offset: number;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  sections: DocumentSection[];
+  /** Page boundaries, for paginated formats only */
+  pages?: DocumentPage[];
+  metadata: Record<string, string | number>;
+}
+
+/**
+ * Turns one file format into plain text plus structural metadata.
+ * Register new formats with `registerExtractor` in `./index.ts`.
+ */
+export interface Extractor {
+  name: string;
+  mimetypes: string[];
+  extensions: string[];
+  extract(buffer: Buffer, filename: string): Promise<ExtractedDocument>;
+}
@@ -0,0 +1,178 @@
+import {
+  AdvancedRAGConfig,
+  getAdvancedRAGConfig,
+} from "../config/advanced-rag.config.js";
+import { createMockProvider, loadMockRules } from "./mock.ts";
+import { createOpenAIProvider } from "./openai.ts";
+import { ChatProvider, ChatRequest, ChatStage, TokenUsage } from "./types.ts";
+import { recordCall, UsageReport } from "./usage.ts";
+
+export type {
+  ChatCompletion,
+  ChatMessage,
+  ChatProvider,
+  ChatRequest,
+  ChatStage,
+  ChatStreamChunk,
+  TokenUsage,
+} from "./types.ts";
+export type { MockRule } from "./mock.ts";
+export { createMockProvider } from "./mock.ts";
+export type { LLMCall, UsageReport, UsageSummary } from "./usage.ts";
+export { createUsageReport, loadPricing, summarizeUsage } from "./usage.ts";
+
+type LLMConfig = AdvancedRAGConfig["llm"];
+
+/** Stages without a model setting of their own borrow a related stage's */
+const STAGE_MODELS: Record<ChatStage, keyof LLMConfig["models"]> = {
+  condense: "expansion",
+  expansion: "expansion",
+  rerank: "critique",
+  synthesis: "synthesis",
+  critique: "critique",
+  citations: "critique",
+};
+
+// Providers hold HTTP clients, so build each one once
+const providers = new Map<string, ChatProvider>();
+
+function createProvider(config: LLMConfig): ChatProvider {
+  switch (config.provider) {
+    case "mock":
+      return createMockProvider(
+        process.env.LLM_MOCK_SCRIPT
+          ? loadMockRules(process.env.LLM_MOCK_SCRIPT)
+          : []
+      );
+    case "openai-compatible":
+      if (!config.baseURL) {
+        throw new Error("Missing LLM_BASE_URL for openai-compatible provider");
+      }
+      // Local servers usually ignore the key, but the client requires one
+      return createOpenAIProvider({
+        name: "openai-compatible",
+        apiKey: process.env.LLM_API_KEY || "not-needed",
+        baseURL: config.baseURL,
+      });
+    case "openai":
+    default: {
+      const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error("Missing OPENAI_API_KEY");
+      }
+      return createOpenAIProvider({ name: "openai", apiKey });
+    }
+  }
+}
+
+/**
+ * The configured provider, created on first use so that importing the
+ * pipeline never requires credentials.
+ */
+export function getChatProvider(
+  config: LLMConfig = getAdvancedRAGConfig().llm
+): ChatProvider {
+  const key = `${config.provider}:${config.baseURL ?? ""}`;
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = createProvider(config);
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+export function chatModel(
+  stage: ChatStage,
+  config: LLMConfig = getAdvancedRAGConfig().llm
+): string {
+  return config.models[STAGE_MODELS[stage]];
+}
+
+type StageRequest = Omit<ChatRequest, "model" | "stage">;
+
+function forStage(
+  stage: ChatStage,
+  request: StageRequest,
+  config: LLMConfig
+): ChatRequest {
+  return { ...request, stage, model: chatModel(stage, config) };
+}
+
+/**
+ * Complete a request, recording its tokens, cost and latency in `usage`
+ */
+export async function completeChat(
+  stage: ChatStage,
+  request: StageRequest,
+  config: LLMConfig = getAdvancedRAGConfig().llm,
+  usage?: UsageReport
+): Promise<string> {
+  const chatRequest = forStage(stage, request, config);
+  const startedAt = Date.now();
+  const completion = await getChatProvider(config).complete(chatRequest);
+  recordCall(usage, {
+    ...chatRequest,
+    stage,
+    content: completion.content,
+    startedAt,
+    usage: completion.usage,
+  });
+  return completion.content;
+}
+
+/**
+ * Stream a response as text tokens. Usage is recorded once the stream ends,
+ * fails or is abandoned, counting the tokens received so far.
+ */
+export async function* streamChat(
+  stage: ChatStage,
+  request: StageRequest,
+  config: LLMConfig = getAdvancedRAGConfig().llm,
+  usage?: UsageReport
+): AsyncIterable<string> {
+  const chatRequest = forStage(stage, request, config);
+  const startedAt = Date.now();
+  let content = "";
+  let reported: TokenUsage | undefined;
+
+  try {
+    for await (const chunk of getChatProvider(config).stream(chatRequest)) {
+      // Backends may still deliver buffered chunks after a cancel
+      chatRequest.signal?.throwIfAborted();
+      if ("usage" in chunk) {
+        reported = chunk.usage;
+      } else {
+        content += chunk.token;
+        yield chunk.token;
+      }
+    }
+  } finally {
+    recordCall(usage, {
+      ...chatRequest,
+      stage,
+      content,
+      startedAt,
+      usage: reported,
+    });
+  }
+}
+
+/**
+ * Complete in JSON mode and parse the result. Throws on invalid JSON, which
+ * callers handle with their own fallbacks. The shape is not checked, so `T`
+ * should leave every field optional and `unknown` for callers to narrow.
+ */
+export async function completeJSON<T = unknown>(
+  stage: ChatStage,
+  request: StageRequest,
+  config: LLMConfig = getAdvancedRAGConfig().llm,
+  usage?: UsageReport
+): Promise<T> {
+  const content = await completeChat(
+    stage,
+    { ...request, json: true },
+    config,
+    usage
+  );
+  return JSON.parse(content || "{}");
+}
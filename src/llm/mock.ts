@@ -0,0 +1,95 @@
+import { readFileSync } from "node:fs";
+import { setTimeout as sleep } from "node:timers/promises";
+import { ChatProvider, ChatRequest, ChatStage } from "./types.ts";
+
+export interface MockRule {
+  /** Only match requests from this pipeline stage */
+  stage?: ChatStage;
+  /** Regular expression tested against the last user message */
+  match?: string;
+  /** Returned verbatim; objects are serialized as JSON */
+  response?: string | Record<string, unknown>;
+  /** Wait this long before responding, to exercise timeouts */
+  delayMs?: number;
+  /** Fail with this message instead of responding */
+  error?: string;
+}
+
+/**
+ * Fallbacks that keep the pipeline well-formed offline: no extra queries, the
+ * follow-up kept as-is, a passing critique so no improvement rounds run.
+ */
+const DEFAULT_RULES: MockRule[] = [
+  { stage: "condense", response: "" },
+  { stage: "expansion", response: "" },
+  { stage: "rerank", response: { scores: [] } },
+  {
+    stage: "synthesis",
+    response: "This is a mock answer generated without a language model.",
+  },
+  {
+    stage: "critique",
+    response: { score: 1, details: { feedback: "Mock critique" } },
+  },
+  { stage: "citations", response: { claims: [] } },
+];
+
+function lastUserMessage(request: ChatRequest): string {
+  const users = request.messages.filter((m) => m.role === "user");
+  return users[users.length - 1]?.content ?? "";
+}
+
+async function respond(
+  rules: MockRule[],
+  request: ChatRequest
+): Promise<string> {
+  const prompt = lastUserMessage(request);
+  const rule = [...rules, ...DEFAULT_RULES].find(
+    (r) =>
+      (!r.stage || r.stage === request.stage) &&
+      (!r.match || new RegExp(r.match, "i").test(prompt))
+  );
+
+  if (rule?.delayMs) {
+    await sleep(rule.delayMs, undefined, { signal: request.signal });
+  }
+  if (rule?.error) throw new Error(rule.error);
+
+  if (!rule || rule.response === undefined) return request.json ? "{}" : "";
+  return typeof rule.response === "string"
+    ? rule.response
+    : JSON.stringify(rule.response);
+}
+
+/**
+ * Deterministic provider for tests and offline runs. The first rule matching
+ * a request wins; built-in defaults cover every stage.
+ */
+export function createMockProvider(rules: MockRule[] = []): ChatProvider {
+  return {
+    name: "mock",
+    // No usage is reported, so it is estimated like a local server's
+    async complete(request) {
+      return { content: await respond(rules, request) };
+    },
+    async *stream(request) {
+      // Word-sized tokens, so streaming consumers see more than one event
+      const response = await respond(rules, request);
+      for (const token of response.match(/\s*\S+/g) ?? []) {
+        yield { token };
+      }
+    },
+    async ping() {},
+  };
+}
+
+/**
+ * Read mock rules from a JSON file holding an array of `MockRule`s.
+ */
+export function loadMockRules(path: string): MockRule[] {
+  const rules = JSON.parse(readFileSync(path, "utf8"));
+  if (!Array.isArray(rules)) {
+    throw new Error(`Mock script must be a JSON array of rules: ${path}`);
+  }
+  return rules;
+}
@@ -0,0 +1,83 @@
+import OpenAI from "openai";
+import { ChatProvider, ChatRequest, TokenUsage } from "./types.ts";
+
+// Bounds a single request. Pipeline stages have their own, usually shorter,
+// timeouts, so raise this with any stage timeout set above it.
+const LLM_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS || 60000);
+
+function toParams(request: ChatRequest) {
+  return {
+    model: request.model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    ...(request.json && {
+      response_format: { type: "json_object" as const },
+    }),
+  };
+}
+
+function toUsage(
+  usage: OpenAI.CompletionUsage | null | undefined
+): TokenUsage | undefined {
+  return usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+      }
+    : undefined;
+}
+
+/**
+ * OpenAI, or any server speaking its chat completions API (llama.cpp,
+ * Ollama, vLLM) when `baseURL` is set.
+ */
+export function createOpenAIProvider(options: {
+  name: string;
+  apiKey: string;
+  baseURL?: string;
+}): ChatProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    // Pipeline stages retry with their own policy; retrying here as well
+    // would multiply the attempts
+    maxRetries: 0,
+    timeout: LLM_TIMEOUT_MS,
+  });
+
+  return {
+    name: options.name,
+    async complete(request) {
+      const completion = await client.chat.completions.create(
+        toParams(request),
+        { signal: request.signal }
+      );
+      return {
+        content: completion.choices[0]?.message?.content?.trim() ?? "",
+        usage: toUsage(completion.usage),
+      };
+    },
+    async *stream(request) {
+      const stream = await client.chat.completions.create(
+        {
+          ...toParams(request),
+          stream: true,
+          // Usage arrives in a final chunk with no choices
+          stream_options: { include_usage: true },
+        },
+        { signal: request.signal }
+      );
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) yield { token };
+        const usage = toUsage(chunk.usage);
+        if (usage) yield { usage };
+      }
+    },
+    // Cheap, generates nothing, and served by compatible servers too
+    async ping() {
+      await client.models.list();
+    },
+  };
+}
@@ -0,0 +1,49 @@
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Pipeline stage a request belongs to. Each stage resolves to one of the
+ * configured `llm.models`, and scripted mocks can match on it.
+ */
+export type ChatStage =
+  "condense" | "expansion" | "rerank" | "synthesis" | "critique" | "citations";
+
+export interface ChatRequest {
+  model: string;
+  stage?: ChatStage;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Constrain the response to a single JSON object */
+  json?: boolean;
+  /** Cancels the request, such as when its pipeline stage times out */
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatCompletion {
+  content: string;
+  /** As reported by the backend; unset when it reports none */
+  usage?: TokenUsage;
+}
+
+/** A piece of streamed response text, or the usage once it is known */
+export type ChatStreamChunk = { token: string } | { usage: TokenUsage };
+
+/**
+ * A chat completion backend. Register new providers in `./index.ts`.
+ */
+export interface ChatProvider {
+  name: string;
+  complete(request: ChatRequest): Promise<ChatCompletion>;
+  /** Yields the response text as it is generated */
+  stream(request: ChatRequest): AsyncIterable<ChatStreamChunk>;
+  /** Throws unless the backend is reachable and accepts the credentials */
+  ping(): Promise<void>;
+}
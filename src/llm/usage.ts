@@ -0,0 +1,140 @@
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import { llmCalls, llmTokens } from "../utils/metrics.ts";
+import { countTokens } from "../utils/tokenizer.ts";
+import { ChatMessage, ChatStage, TokenUsage } from "./types.ts";
+
+const PRICING_PATH =
+  process.env.LLM_PRICING ||
+  fileURLToPath(new URL("../config/pricing.json", import.meta.url));
+
+// USD per million tokens
+const PricingSchema = z.record(
+  z
+    .object({
+      input: z.number().min(0),
+      output: z.number().min(0),
+    })
+    .strict()
+);
+
+let pricing: z.infer<typeof PricingSchema> | null = null;
+
+/**
+ * Model prices from `LLM_PRICING` (default `src/config/pricing.json`), read
+ * once and validated on first use.
+ */
+export function loadPricing(): z.infer<typeof PricingSchema> {
+  if (!pricing) {
+    const parsed = PricingSchema.safeParse(
+      JSON.parse(readFileSync(PRICING_PATH, "utf8"))
+    );
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid model pricing in ${PRICING_PATH}: ${parsed.error.message}`
+      );
+    }
+    pricing = parsed.data;
+  }
+  return pricing;
+}
+
+export interface LLMCall extends TokenUsage {
+  stage: ChatStage;
+  model: string;
+  latencyMs: number;
+  /** Counted with the local tokenizer because the backend reported none */
+  estimated: boolean;
+  /** Null for models missing from the price list */
+  costUsd: number | null;
+}
+
+/** Every LLM call made for one request, in order */
+export interface UsageReport {
+  calls: LLMCall[];
+}
+
+export interface UsageSummary extends TokenUsage {
+  totalTokens: number;
+  costUsd: number;
+  /** Models called without a price, so not in `costUsd` */
+  unpricedModels: string[];
+  calls: LLMCall[];
+}
+
+export function createUsageReport(): UsageReport {
+  return { calls: [] };
+}
+
+function callCost(model: string, usage: TokenUsage): number | null {
+  const price = Object.prototype.hasOwnProperty.call(loadPricing(), model)
+    ? loadPricing()[model]
+    : undefined;
+  if (!price) return null;
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Record one call in the LLM metrics and in `report`, estimating its tokens
+ * from the messages and response when the backend reported none.
+ */
+export function recordCall(
+  report: UsageReport | undefined,
+  call: {
+    stage: ChatStage;
+    model: string;
+    messages: ChatMessage[];
+    content: string;
+    startedAt: number;
+    usage?: TokenUsage;
+  }
+): void {
+  const usage = call.usage ?? {
+    promptTokens: call.messages.reduce(
+      (sum, message) => sum + countTokens(message.content),
+      0
+    ),
+    completionTokens: countTokens(call.content),
+  };
+
+  const labels = { stage: call.stage, model: call.model };
+  llmCalls.inc(labels);
+  llmTokens.inc({ ...labels, type: "prompt" }, usage.promptTokens);
+  llmTokens.inc({ ...labels, type: "completion" }, usage.completionTokens);
+
+  if (!report) return;
+  report.calls.push({
+    stage: call.stage,
+    model: call.model,
+    ...usage,
+    latencyMs: Date.now() - call.startedAt,
+    estimated: !call.usage,
+    costUsd: callCost(call.model, usage),
+  });
+}
+
+export function summarizeUsage(report: UsageReport): UsageSummary {
+  const { calls } = report;
+  const promptTokens = calls.reduce((sum, call) => sum + call.promptTokens, 0);
+  const completionTokens = calls.reduce(
+    (sum, call) => sum + call.completionTokens,
+    0
+  );
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    costUsd: calls.reduce((sum, call) => sum + (call.costUsd ?? 0), 0),
+    unpricedModels: [
+      ...new Set(
+        calls.filter((call) => call.costUsd === null).map((call) => call.model)
+      ),
+    ],
+    calls,
+  };
+}
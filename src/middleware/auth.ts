@@ -0,0 +1,112 @@
+import { NextFunction, Request, Response } from "express";
+import {
+  ApiKey,
+  ApiKeyRole,
+  canAccessNamespace,
+  findApiKey,
+  hasRole,
+  rateLimitOf,
+} from "../services/api-keys.ts";
+import { chargeTokens, takeRequest } from "../services/rate-limit.ts";
+
+// "none" serves every route without a key, for local development
+export const AUTH_MODE = process.env.AUTH_MODE || "api-key";
+
+declare global {
+  namespace Express {
+    interface Locals {
+      /** Unset when AUTH_MODE is "none" */
+      apiKey?: ApiKey;
+      /** Estimated LLM tokens the request used, charged to the key */
+      tokensUsed?: number;
+    }
+  }
+}
+
+function secretFrom(req: Request): string | undefined {
+  const header = req.get("authorization");
+  if (header?.startsWith("Bearer ")) return header.slice(7).trim();
+  return req.get("x-api-key");
+}
+
+/**
+ * Identify the API key and apply its rate limits. Tokens are charged once
+ * the response finishes, so a burst of long answers blocks the next request.
+ */
+async function authenticate(req: Request, res: Response, next: NextFunction) {
+  if (AUTH_MODE === "none") return next();
+
+  try {
+    const secret = secretFrom(req);
+    const apiKey = secret ? await findApiKey(secret) : undefined;
+    if (!apiKey) {
+      return res
+        .status(401)
+        .set("WWW-Authenticate", "Bearer")
+        .json({ error: secret ? "Invalid API key" : "Missing API key" });
+    }
+
+    const limits = rateLimitOf(apiKey);
+    const result = takeRequest(apiKey.id, limits);
+    if (!result.allowed) {
+      return res
+        .status(429)
+        .set("Retry-After", String(result.retryAfterSeconds))
+        .json({
+          error: "Rate limit exceeded",
+          limit: result.limit,
+          retryAfterSeconds: result.retryAfterSeconds,
+        });
+    }
+
+    res.locals.apiKey = apiKey;
+    res.on("finish", () =>
+      chargeTokens(apiKey.id, limits, res.locals.tokensUsed ?? 0)
+    );
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Middleware for a route: authenticate, then require `role`. Goes before
+ * body parsers such as multer so rejected uploads are never buffered.
+ */
+export function authorize(role: ApiKeyRole) {
+  const requireRole = (_req: Request, res: Response, next: NextFunction) => {
+    const { apiKey } = res.locals;
+    if (apiKey && !hasRole(apiKey, role)) {
+      return res.status(403).json({ error: `API key lacks the ${role} role` });
+    }
+    next();
+  };
+  return [authenticate, requireRole];
+}
+
+/**
+ * Whether the request's key may use `namespace`; sends a 403 when not, so
+ * handlers can `return` straight away.
+ */
+export function allowNamespace(res: Response, namespace: string): boolean {
+  const { apiKey } = res.locals;
+  if (apiKey && !canAccessNamespace(apiKey, namespace)) {
+    res
+      .status(403)
+      .json({ error: `API key cannot access namespace: ${namespace}` });
+    return false;
+  }
+  return true;
+}
+
+/** Filter to the namespaces the request's key may see */
+export function visibleNamespaces<T>(
+  res: Response,
+  items: T[],
+  namespaceOf: (item: T) => string
+): T[] {
+  const { apiKey } = res.locals;
+  return apiKey
+    ? items.filter((item) => canAccessNamespace(apiKey, namespaceOf(item)))
+    : items;
+}
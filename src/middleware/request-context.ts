@@ -0,0 +1,59 @@
+import { randomUUID } from "node:crypto";
+import { NextFunction, Request, Response } from "express";
+import { Logger, logger } from "../utils/logger.ts";
+import { httpRequestDuration, httpRequests } from "../utils/metrics.ts";
+
+// Caller-supplied IDs are kept only when they are short and plain
+const REQUEST_ID = /^[\w.-]{1,128}$/;
+
+declare global {
+  namespace Express {
+    interface Locals {
+      requestId: string;
+      /** Bound to the request ID */
+      log: Logger;
+    }
+  }
+}
+
+/**
+ * Give each request an ID, from `X-Request-Id` or a new UUID, echoed in the
+ * response and bound to its logger; log and count each response with its
+ * duration.
+ */
+export function requestContext(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const header = req.get("x-request-id");
+  const requestId = header && REQUEST_ID.test(header) ? header : randomUUID();
+  const started = Date.now();
+
+  res.locals.requestId = requestId;
+  res.locals.log = logger.child({ requestId });
+  res.set("X-Request-Id", requestId);
+
+  res.on("finish", () => {
+    const durationMs = Date.now() - started;
+    // Label by route pattern, not path, so IDs do not multiply the series
+    const route: string = req.route?.path ?? "unmatched";
+    httpRequests.inc({
+      method: req.method,
+      route,
+      status: String(res.statusCode),
+    });
+    httpRequestDuration.observe(
+      { method: req.method, route },
+      durationMs / 1000
+    );
+
+    res.locals.log.info("Request completed", {
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      durationMs,
+    });
+  });
+  next();
+}
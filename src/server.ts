@@ -2,30 +2,123 @@ import "dotenv/config";
 import express, { Request, Response, NextFunction } from "express";
 import multer from "multer";
 import { z } from "zod";
+import { createCacheReport, invalidateNamespace } from "./cache/index.ts";
 import {
-  ensurePineconeIndex,
-  getPineconeIndex,
-  upsertVectors,
-} from "./services/pinecone.ts";
-import { chunkText } from "./utils/chunk.ts";
-import pdf from "pdf-parse";
-
-function parseMetadata(metadata: Record<string, any> | undefined) {
-  if (!metadata) {
-    return {
-      source: "unknown",
-      chunkIndex: 0,
-    };
-  }
-
-  return {
-    ...metadata,
-    source: metadata.source || "unknown",
-    chunkIndex: metadata.chunkIndex || 0,
-  };
-}
+  ConfigOverride,
+  RequestConfigOverrideSchema,
+} from "./config/advanced-rag.config.js";
+import {
+  hasProfile,
+  loadProfiles,
+  profileNames,
+  resolveConfig,
+} from "./config/profiles.ts";
+import {
+  allowNamespace,
+  AUTH_MODE,
+  authorize,
+  visibleNamespaces,
+} from "./middleware/auth.ts";
+import {
+  AdvancedQueryResponse,
+  ApiKeyResponse,
+  ApiKeysResponse,
+  BudgetResponse,
+  BudgetSchema,
+  BudgetsResponse,
+  ChunkPreviewResponse,
+  ChunkPreviewSchema,
+  DeletedResponse,
+  DocumentResponse,
+  DocumentsResponse,
+  JobResponse,
+  MessageResponse,
+  MessageSchema,
+  NamespacesResponse,
+  NewApiKeyResponse,
+  NewApiKeySchema,
+  NewSessionSchema,
+  PromptSetDetailsResponse,
+  PromptSetResponse,
+  PromptSetsResponse,
+  PromptSetUpdateSchema,
+  QueryResponse,
+  QuerySchema,
+  QueryStreamEvent,
+  ReadyResponse,
+  SessionResponse,
+  UploadResponse,
+  UploadSchema,
+  UsageQuerySchema,
+  UsageResponse,
+} from "./api/schemas.ts";
+import { DOCS_PAGE, openAPIDocument } from "./api/openapi.ts";
+import {
+  createUsageReport,
+  getChatProvider,
+  loadPricing,
+  summarizeUsage,
+  UsageReport,
+  UsageSummary,
+} from "./llm/index.ts";
+import {
+  getVectorStore,
+  listNamespaces,
+  toRecordFilter,
+} from "./vector-store/index.ts";
+import { advancedSearchOptions, searchMatches } from "./services/search.ts";
+import {
+  getDocument,
+  listDocuments,
+  removeDocument,
+  removeNamespaceDocuments,
+} from "./services/document-registry.ts";
+import { findExtractor, supportedExtensions } from "./extractors/index.ts";
+import { extractAndChunk, removeDocumentChunks } from "./services/ingestion.ts";
+import { dropKeywordIndex } from "./services/keyword-index.ts";
+import {
+  createIngestionJob,
+  getJob,
+  resumeIngestionJobs,
+} from "./services/jobs.ts";
+import {
+  activatePromptVersion,
+  bindPromptNamespaces,
+  getPromptSet,
+  listPromptSets,
+  PROMPT_SET_NAME,
+  PromptSet,
+  PromptTemplatesSchema,
+  renderTemplate,
+  resolvePrompts,
+  ResolvedPrompts,
+  savePromptTemplates,
+} from "./services/prompts.ts";
+import {
+  API_KEY_ROLES,
+  createApiKey,
+  hasApiKeys,
+  hasRole,
+  listApiKeys,
+  revokeApiKey,
+} from "./services/api-keys.ts";
+import {
+  aggregateUsage,
+  getBudgetStatus,
+  listBudgets,
+  recordUsage,
+  setBudget,
+} from "./services/usage.ts";
+import { appendTurns, createSession, getSession } from "./services/sessions.ts";
+import type { AdvancedRAGResult } from "./services/advanced-rag.ts";
+import { logger } from "./utils/logger.ts";
+import { renderMetrics } from "./utils/metrics.ts";
+import { withTimeout } from "./utils/retry.ts";
+import { createTrace, traceSummary, withSpan } from "./utils/trace.ts";
+import { requestContext } from "./middleware/request-context.ts";
 
 const app = express();
+app.use(requestContext);
 app.use(express.json({ limit: "10mb" }));
 
 const upload = multer({
@@ -33,25 +126,118 @@ const upload = multer({
   limits: { fileSize: 100 * 1024 * 1024 },
 });
 
-const UploadSchema = z.object({
-  namespace: z.string().min(1).max(128).optional(),
-  chunkSize: z.number().int().min(200).max(4000).optional(),
-  chunkOverlap: z.number().int().min(0).max(1000).optional(),
-});
+/**
+ * Config for one request. Queries that name no profile use the API key's;
+ * sends a 400 when that profile no longer exists, so handlers can `return`
+ * on undefined. Only admin keys can raise the costly settings.
+ */
+function resolveRequestConfig(
+  res: Response,
+  selection: { profile?: string; config?: ConfigOverride }
+) {
+  const { apiKey } = res.locals;
+  const profile = selection.profile ?? apiKey?.profile;
+  if (profile && !hasProfile(profile)) {
+    res.status(400).json({
+      error: `API key is bound to an unknown config profile: ${profile}. Name a profile in the request, or update the key.`,
+    });
+    return undefined;
+  }
+  return {
+    profile: profile ?? null,
+    config: resolveConfig({
+      profile,
+      config: selection.config,
+      limitCost: apiKey !== undefined && !hasRole(apiKey, "admin"),
+    }),
+  };
+}
 
-const QuerySchema = z.object({
-  query: z.string().min(1),
-  topK: z.number().int().min(1).max(50).optional(),
-  namespace: z.string().min(1).max(128).optional(),
-  withAnswer: z.boolean().optional(),
-});
+/**
+ * Refuse LLM work for a namespace over its monthly budget; sends a 402 when
+ * over, so handlers can `return` straight away.
+ */
+async function withinBudget(res: Response, namespace: string) {
+  const budget = await getBudgetStatus(namespace);
+  if (budget.exceeded) {
+    res.status(402).json({
+      error: `Monthly budget exceeded for namespace: ${namespace}`,
+      budget,
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Log a request's LLM usage and charge its tokens to the API key's rate
+ * limit
+ */
+async function finishUsage(
+  res: Response,
+  namespace: string,
+  route: string,
+  usage: UsageReport
+): Promise<UsageSummary> {
+  const summary = summarizeUsage(usage);
+  res.locals.tokensUsed = summary.totalTokens;
+  await recordUsage(
+    { apiKeyId: res.locals.apiKey?.id ?? null, namespace, route },
+    summary
+  );
+  return summary;
+}
 
 app.get("/health", (_req: Request, res: Response) => {
   res.json({ ok: true });
 });
 
+// Like /health, readiness, metrics and the API docs need no API key
+const READY_TIMEOUT_MS = Number(process.env.READY_TIMEOUT_MS || 3000);
+
+async function checkDependency(name: string, check: () => Promise<unknown>) {
+  const started = Date.now();
+  try {
+    await withTimeout(check(), READY_TIMEOUT_MS, name);
+    return { name, ok: true, latencyMs: Date.now() - started };
+  } catch (error) {
+    return {
+      name,
+      ok: false,
+      latencyMs: Date.now() - started,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * 200 when the vector store and the default LLM provider both answer within
+ * READY_TIMEOUT_MS, otherwise 503 with the failing checks.
+ */
+app.get("/ready", async (_req: Request, res: Response) => {
+  const checks = await Promise.all([
+    checkDependency("vectorStore", () => getVectorStore().stats()),
+    checkDependency("llm", async () => getChatProvider().ping()),
+  ]);
+  const ok = checks.every((check) => check.ok);
+  res.status(ok ? 200 : 503).json({ ok, checks } satisfies ReadyResponse);
+});
+
+app.get("/metrics", (_req: Request, res: Response) => {
+  res.type("text/plain; version=0.0.4").send(renderMetrics());
+});
+
+app.get("/openapi.json", (_req: Request, res: Response) => {
+  res.json(openAPIDocument());
+});
+
+app.get("/docs", (_req: Request, res: Response) => {
+  res.type("html").send(DOCS_PAGE);
+});
+
 app.post(
   "/upload",
+  authorize("ingest"),
   upload.array("files", 10),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -66,216 +252,416 @@ app.post(
       }
 
       const namespace = parsed.data.namespace ?? "default";
+      if (!allowNamespace(res, namespace)) return;
       const chunkSize = parsed.data.chunkSize ?? 1200;
       const chunkOverlap = parsed.data.chunkOverlap ?? 200;
+      const chunkStrategy = parsed.data.chunkStrategy ?? "words";
 
       const files = req.files as Express.Multer.File[] | undefined;
       if (!files || files.length === 0) {
         return res.status(400).json({ error: "No files uploaded" });
       }
 
-      const index = await ensurePineconeIndex();
-
-      const allChunks: Array<{
-        text: string;
-        metadata: Record<string, unknown>;
-      }> = [];
+      const { metadata } = parsed.data;
+      if (Array.isArray(metadata) && metadata.length !== files.length) {
+        return res.status(400).json({
+          error: `Expected metadata for ${files.length} file(s), got ${metadata.length}`,
+        });
+      }
 
       for (const file of files) {
-        if (file.mimetype !== "application/pdf") {
+        if (!findExtractor(file.mimetype, file.originalname)) {
           return res.status(400).json({
-            error: `Unsupported mimetype: ${file.mimetype}. Only PDF allowed.`,
+            error: `Unsupported file type: ${file.originalname} (${file.mimetype}). Supported: ${supportedExtensions().join(", ")}`,
           });
         }
+      }
 
-        const pdfData = await pdf(file.buffer);
-        const text = pdfData.text || "";
-        if (!text.trim()) continue;
+      const job = await createIngestionJob(
+        files,
+        {
+          namespace,
+          chunkSize,
+          chunkOverlap,
+          chunkStrategy,
+          replaceByFilename: parsed.data.replaceByFilename,
+        },
+        files.map((_, i) => (Array.isArray(metadata) ? metadata[i] : metadata))
+      );
 
-        const chunks = chunkText(text, { chunkSize, chunkOverlap });
+      res.status(202).json({
+        ok: true,
+        jobId: job.id,
+        status: job.status,
+        namespace,
+      } satisfies UploadResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
 
-        for (let i = 0; i < chunks.length; i++) {
-          const chunk = chunks[i];
-          try {
-            allChunks.push({
-              text: chunk,
-              metadata: {
-                source: file.originalname,
-                chunkIndex: i,
-              },
-            });
-          } catch (error) {
-            console.error(`Error generating metadata for chunk ${i}:`, error);
-
-            allChunks.push({
-              text: chunk,
-              metadata: {
-                source: file.originalname,
-                chunkIndex: i,
-              },
-            });
-          }
-        }
+app.post(
+  "/chunk/preview",
+  authorize("ingest"),
+  upload.single("file"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = ChunkPreviewSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid parameters",
+          details: parsed.error.flatten(),
+        });
       }
 
-      if (allChunks.length === 0) {
-        return res
-          .status(400)
-          .json({ error: "No embeddable text extracted from PDFs" });
+      const chunkSize = parsed.data.chunkSize ?? 1200;
+      const chunkOverlap = parsed.data.chunkOverlap ?? 200;
+      const chunkStrategy = parsed.data.chunkStrategy ?? "words";
+
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
+      if (!findExtractor(file.mimetype, file.originalname)) {
+        return res.status(400).json({
+          error: `Unsupported file type: ${file.originalname} (${file.mimetype}). Supported: ${supportedExtensions().join(", ")}`,
+        });
       }
 
-      const texts = allChunks.map((chunk) => chunk.text);
-      const metadata = allChunks.map((chunk) => chunk.metadata);
+      const { extractor, extracted, chunks } = await extractAndChunk(
+        file.buffer,
+        file.originalname,
+        file.mimetype,
+        { chunkSize, chunkOverlap, chunkStrategy }
+      );
 
-      await upsertVectors(texts, metadata);
+      res.json({
+        ok: true,
+        filename: file.originalname,
+        format: extractor.name,
+        metadata: extracted.metadata,
+        chunkStrategy,
+        chunkSize,
+        chunkOverlap,
+        totalChunks: chunks.length,
+        chunks: chunks.map((chunk, i) => ({
+          chunkIndex: i,
+          ...chunk,
+        })),
+      } satisfies ChunkPreviewResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
 
-      const total = allChunks.length;
-      res.json({ ok: true, upserted: total, namespace });
+app.get(
+  "/jobs/:id",
+  authorize("ingest"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const job = await getJob(req.params.id);
+      if (!job) {
+        return res
+          .status(404)
+          .json({ error: `Job not found: ${req.params.id}` });
+      }
+      if (!allowNamespace(res, job.options.namespace)) return;
+
+      res.json({ ok: true, job } satisfies JobResponse);
     } catch (err) {
       next(err);
     }
   }
 );
 
-app.post("/query", async (req: Request, res: Response, next: NextFunction) => {
+/**
+ * Answer a query over Server-Sent Events: the retrieved sources, then the
+ * expanded queries, then answer tokens, an optional revised answer, and a
+ * final event with the critique score and confidence.
+ */
+async function streamQuery(req: Request, res: Response, _next: NextFunction) {
+  const parsed = await QuerySchema.safeParseAsync(req.body);
+  if (!parsed.success) {
+    return res
+      .status(400)
+      .json({ error: "Invalid parameters", details: parsed.error.flatten() });
+  }
+  const { query, topK = 5, namespace = "default", debug } = parsed.data;
+  if (!allowNamespace(res, namespace)) return;
+  const filter = parsed.data.filter && toRecordFilter(parsed.data.filter);
+  const resolved = resolveRequestConfig(res, parsed.data);
+  if (!resolved) return;
+  const { profile, config } = resolved;
+  const cacheReport = createCacheReport(config);
+  const usage = createUsageReport();
+  const trace = createTrace(res.locals.requestId);
+  const prompts = await resolvePrompts(namespace, config);
+  if (!(await withinBudget(res, namespace))) return;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+  });
+
+  const send = <E extends QueryStreamEvent["event"]>(
+    event: E,
+    data: Extract<QueryStreamEvent, { event: E }>["data"]
+  ) => {
+    // Stages abandoned after a timeout must not write past the end
+    if (closed || res.writableEnded) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
   try {
-    const parsed = QuerySchema.safeParse(req.body);
-    if (!parsed.success) {
-      return res
-        .status(400)
-        .json({ error: "Invalid parameters", details: parsed.error.flatten() });
+    const searchTopK = Math.max(topK * 2, 10);
+    const parsedMatches = await withSpan(trace, "retrieve", undefined, () =>
+      searchMatches(
+        namespace,
+        query,
+        { topK: searchTopK, topN: Math.min(searchTopK, 10), filter },
+        config,
+        cacheReport
+      )
+    );
+
+    send("sources", { matches: parsedMatches });
+
+    if (parsedMatches.length === 0) {
+      send("final", {
+        answer: renderTemplate(prompts.templates.noAnswer, { query }),
+        critiqueScore: 0.0,
+        confidence: 0.0,
+        prompts: { set: prompts.set, version: prompts.version },
+        profile,
+        config,
+        cache: cacheReport,
+        ...(debug && { trace: traceSummary(trace) }),
+      });
+      return;
     }
-    const {
+
+    const { advancedRAGQuery } = await import("./services/advanced-rag.ts");
+    const result = await advancedRAGQuery(
       query,
-      topK = 5,
-      namespace = "default",
-      withAnswer = true,
-    } = parsed.data;
+      parsedMatches,
+      topK,
+      namespace,
+      {
+        filter,
+        config,
+        cacheReport,
+        prompts,
+        usage,
+        trace,
+        onEvent: (event) => {
+          switch (event.type) {
+            case "queries":
+              send("queries", { expandedQueries: event.expandedQueries });
+              break;
+            case "token":
+              send("token", { token: event.token });
+              break;
+            case "revision":
+              send("revision", {
+                answer: event.answer,
+                critiqueScore: event.critiqueScore,
+              });
+              break;
+          }
+        },
+      }
+    );
 
-    const index = await getPineconeIndex();
+    send("final", {
+      answer: result.finalAnswer,
+      critiqueScore: result.critiqueScore,
+      confidence: result.confidence,
+      sources: result.sources,
+      claims: result.claims,
+      attempts: result.attempts,
+      degraded: result.degraded,
+      prompts: result.prompts,
+      usage: summarizeUsage(usage),
+      profile,
+      config,
+      cache: cacheReport,
+      ...(debug && { trace: traceSummary(trace) }),
+    });
+  } catch (err) {
+    trace.log.error("Error streaming query", { err });
+    send("error", {
+      error: "An error occurred while processing your request.",
+    });
+  } finally {
+    // Calls made before a failure are still spent
+    await finishUsage(res, namespace, "/query/stream", usage).catch((err) =>
+      trace.log.error("Error recording usage", { err })
+    );
+    res.end();
+  }
+}
 
-    console.log(`Searching for query: "${query}" in namespace: "${namespace}"`);
+app.post("/query/stream", authorize("read"), streamQuery);
 
-    // Enhanced search with higher topK for better reranking
-    const searchTopK = Math.max(topK * 2, 10);
+app.post(
+  "/query",
+  authorize("read"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (req.get("accept")?.includes("text/event-stream")) {
+      return streamQuery(req, res, next);
+    }
 
-    const results = await index.searchRecords({
-      query: {
-        inputs: { text: query },
-        topK: searchTopK,
-      },
-      fields: ["chunk_text", "source", "chunk_index"],
-      rerank: {
-        model: "bge-reranker-v2-m3",
-        topN: Math.min(searchTopK, 10),
-        rankFields: ["chunk_text"],
-      },
-    });
+    try {
+      const parsed = await QuerySchema.safeParseAsync(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid parameters",
+          details: parsed.error.flatten(),
+        });
+      }
+      const resolved = resolveRequestConfig(res, parsed.data);
+      if (!resolved) return;
+      const { profile, config } = resolved;
+      const cacheReport = createCacheReport(config);
+      const {
+        query,
+        topK = 5,
+        namespace = "default",
+        withAnswer = config.synthesis.enabled,
+        debug,
+      } = parsed.data;
+      if (!allowNamespace(res, namespace)) return;
+      if (withAnswer && !(await withinBudget(res, namespace))) return;
+      const filter = parsed.data.filter && toRecordFilter(parsed.data.filter);
+      const trace = createTrace(res.locals.requestId);
 
-    console.log(`Search results:`, JSON.stringify(results, null, 2));
-    const matches = results.result.hits ?? [];
-
-    const parsedMatches = matches.map((match) => ({
-      ...match,
-      metadata: parseMetadata({
-        source: (match.fields as any)?.source,
-        chunkIndex: (match.fields as any)?.chunk_index,
-      }),
-      fields: match.fields || {},
-    }));
-
-    let answer: string | undefined;
-    let advancedRAGResult: any = undefined;
-
-    if (withAnswer) {
-      if (parsedMatches.length > 0) {
-        // Use advanced RAG techniques
-        const { advancedRAGQuery } = await import("./services/advanced-rag.ts");
-        try {
-          advancedRAGResult = await advancedRAGQuery(
-            query,
-            parsedMatches,
-            topK
-          );
-          answer = advancedRAGResult.finalAnswer;
-        } catch (error) {
-          console.error("Error in advanced RAG:", error);
-          answer = "An error occurred while processing your request.";
+      // Enhanced search with higher topK for better reranking
+      const searchTopK = Math.max(topK * 2, 10);
+
+      const parsedMatches = await withSpan(trace, "retrieve", undefined, () =>
+        searchMatches(
+          namespace,
+          query,
+          { topK: searchTopK, topN: Math.min(searchTopK, 10), filter },
+          config,
+          cacheReport
+        )
+      );
+
+      let answer: string | undefined;
+      let advancedRAGResult: AdvancedRAGResult | undefined;
+      let prompts: ResolvedPrompts | undefined;
+      let usage: UsageSummary | undefined;
+
+      if (withAnswer) {
+        const usageReport = createUsageReport();
+        prompts = await resolvePrompts(namespace, config);
+        if (parsedMatches.length > 0) {
+          // Use advanced RAG techniques
+          const { advancedRAGQuery } =
+            await import("./services/advanced-rag.ts");
+          try {
+            advancedRAGResult = await advancedRAGQuery(
+              query,
+              parsedMatches,
+              topK,
+              namespace,
+              {
+                filter,
+                config,
+                cacheReport,
+                prompts,
+                usage: usageReport,
+                trace,
+              }
+            );
+            answer = advancedRAGResult.finalAnswer;
+          } catch (error) {
+            trace.log.error("Error in advanced RAG", { err: error });
+            answer = "An error occurred while processing your request.";
+          }
+        } else {
+          answer = renderTemplate(prompts.templates.noAnswer, { query });
         }
-      } else {
-        answer =
-          "I don't have enough information in my knowledge base to answer this question accurately.";
+        usage = await finishUsage(res, namespace, "/query", usageReport);
       }
-    }
 
-    const response: any = {
-      ok: true,
-      matches: parsedMatches,
-      answer,
-    };
-
-    // Include advanced RAG metadata if available
-    if (advancedRAGResult) {
-      response.advancedRAG = {
-        expandedQueries: advancedRAGResult.expandedQueries,
-        critiqueScore: advancedRAGResult.critiqueScore,
-        confidence: advancedRAGResult.confidence,
-        rerankedDocuments: advancedRAGResult.rerankedDocuments.length,
+      const response: QueryResponse = {
+        ok: true,
+        matches: parsedMatches,
+        answer,
+        prompts: prompts && { set: prompts.set, version: prompts.version },
+        usage,
+        profile,
+        config,
+        cache: cacheReport,
+        trace: debug ? traceSummary(trace) : undefined,
       };
-    }
 
-    res.json(response);
-  } catch (err) {
-    next(err);
+      // Include advanced RAG metadata if available
+      if (advancedRAGResult) {
+        response.advancedRAG = {
+          expandedQueries: advancedRAGResult.expandedQueries,
+          critiqueScore: advancedRAGResult.critiqueScore,
+          confidence: advancedRAGResult.confidence,
+          rerankedDocuments: advancedRAGResult.rerankedDocuments.length,
+          sources: advancedRAGResult.sources,
+          claims: advancedRAGResult.claims,
+          droppedCitations: advancedRAGResult.droppedCitations,
+          attempts: advancedRAGResult.attempts,
+          degraded: advancedRAGResult.degraded,
+        };
+      }
+
+      res.json(response);
+    } catch (err) {
+      next(err);
+    }
   }
-});
+);
 
 // New endpoint for advanced RAG with detailed analysis
 app.post(
   "/query/advanced",
+  authorize("read"),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const parsed = QuerySchema.safeParse(req.body);
+      const parsed = await QuerySchema.safeParseAsync(req.body);
       if (!parsed.success) {
         return res.status(400).json({
           error: "Invalid parameters",
           details: parsed.error.flatten(),
         });
       }
-      const { query, topK = 5, namespace = "default" } = parsed.data;
+      const { query, topK = 5, namespace = "default", debug } = parsed.data;
+      if (!allowNamespace(res, namespace)) return;
+      const filter = parsed.data.filter && toRecordFilter(parsed.data.filter);
+      const resolved = resolveRequestConfig(res, parsed.data);
+      if (!resolved) return;
+      const { profile, config } = resolved;
+      const cacheReport = createCacheReport(config);
+      const prompts = await resolvePrompts(namespace, config);
+      if (!(await withinBudget(res, namespace))) return;
+      const trace = createTrace(res.locals.requestId);
 
-      const index = await getPineconeIndex();
-
-      console.log(
-        `Advanced RAG query: "${query}" in namespace: "${namespace}"`
+      const parsedMatches = await withSpan(trace, "retrieve", undefined, () =>
+        searchMatches(
+          namespace,
+          query,
+          { ...advancedSearchOptions(topK), filter },
+          config,
+          cacheReport
+        )
       );
 
-      // Enhanced search with higher topK for better reranking
-      const searchTopK = Math.max(topK * 3, 15);
-
-      const results = await index.searchRecords({
-        query: {
-          inputs: { text: query },
-          topK: searchTopK,
-        },
-        fields: ["chunk_text", "source", "chunk_index"],
-        rerank: {
-          model: "bge-reranker-v2-m3",
-          topN: Math.min(searchTopK, 15),
-          rankFields: ["chunk_text"],
-        },
-      });
-
-      const matches = results.result.hits ?? [];
-      const parsedMatches = matches.map((match) => ({
-        ...match,
-        metadata: parseMetadata({
-          source: (match.fields as any)?.source,
-          chunkIndex: (match.fields as any)?.chunk_index,
-        }),
-        fields: match.fields || {},
-      }));
-
       if (parsedMatches.length === 0) {
         return res.json({
           ok: true,
@@ -287,37 +673,651 @@ app.post(
             confidence: 0.0,
             rerankedDocuments: [],
             documents: [],
+            sources: [],
+            claims: [],
           },
-        });
+          prompts: { set: prompts.set, version: prompts.version },
+          profile,
+          config,
+          cache: cacheReport,
+          ...(debug && { trace: traceSummary(trace) }),
+        } satisfies AdvancedQueryResponse);
       }
 
       // Use advanced RAG techniques
       const { advancedRAGQuery } = await import("./services/advanced-rag.ts");
-      const advancedRAGResult = await advancedRAGQuery(
-        query,
-        parsedMatches,
-        topK
-      );
+      const usageReport = createUsageReport();
+      let advancedRAGResult: AdvancedRAGResult;
+      let usage: UsageSummary;
+      try {
+        advancedRAGResult = await advancedRAGQuery(
+          query,
+          parsedMatches,
+          topK,
+          namespace,
+          { filter, config, cacheReport, prompts, usage: usageReport, trace }
+        );
+      } finally {
+        // Calls made before a failure are still spent
+        usage = await finishUsage(
+          res,
+          namespace,
+          "/query/advanced",
+          usageReport
+        );
+      }
 
       res.json({
         ok: true,
         query,
+        namespace,
         advancedRAG: advancedRAGResult,
         rawMatches: parsedMatches.slice(0, 5), // Include first 5 raw matches for comparison
+        usage,
+        profile,
+        config,
+        cache: cacheReport,
+        ...(debug && { trace: traceSummary(trace) }),
+      } satisfies AdvancedQueryResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.post(
+  "/sessions",
+  authorize("read"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = NewSessionSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid parameters",
+          details: parsed.error.flatten(),
+        });
+      }
+
+      const namespace = parsed.data.namespace ?? "default";
+      if (!allowNamespace(res, namespace)) return;
+
+      const session = await createSession(namespace);
+      res.status(201).json({ ok: true, session } satisfies SessionResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.get(
+  "/sessions/:id",
+  authorize("read"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = await getSession(req.params.id);
+      if (!session) {
+        return res
+          .status(404)
+          .json({ error: `Session not found: ${req.params.id}` });
+      }
+      if (!allowNamespace(res, session.namespace)) return;
+
+      res.json({ ok: true, session } satisfies SessionResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.post(
+  "/sessions/:id/messages",
+  authorize("read"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = await getSession(req.params.id);
+      if (!session) {
+        return res
+          .status(404)
+          .json({ error: `Session not found: ${req.params.id}` });
+      }
+      if (!allowNamespace(res, session.namespace)) return;
+
+      const parsed = await MessageSchema.safeParseAsync(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid parameters",
+          details: parsed.error.flatten(),
+        });
+      }
+      const { content, topK = 5, debug } = parsed.data;
+      const { namespace } = session;
+      const filter = parsed.data.filter && toRecordFilter(parsed.data.filter);
+      const resolved = resolveRequestConfig(res, parsed.data);
+      if (!resolved) return;
+      const { profile, config } = resolved;
+      const cacheReport = createCacheReport(config);
+      if (!(await withinBudget(res, namespace))) return;
+
+      const { advancedRAGQuery, condenseQuestion } =
+        await import("./services/advanced-rag.ts");
+
+      const prompts = await resolvePrompts(namespace, config);
+      const history = session.turns
+        .slice(-config.conversation.maxHistoryTurns)
+        .map((turn) => ({ role: turn.role, content: turn.content }));
+      const usageReport = createUsageReport();
+      const trace = createTrace(res.locals.requestId);
+      let standaloneQuery: string;
+      let answer: string;
+      let advancedRAGResult: AdvancedRAGResult | undefined;
+      let usage: UsageSummary;
+      try {
+        standaloneQuery = await withSpan(trace, "condense", undefined, () =>
+          condenseQuestion(history, content, config, usageReport)
+        );
+
+        const searchTopK = Math.max(topK * 2, 10);
+        const parsedMatches = await withSpan(trace, "retrieve", undefined, () =>
+          searchMatches(
+            namespace,
+            standaloneQuery,
+            { topK: searchTopK, topN: Math.min(searchTopK, 10), filter },
+            config,
+            cacheReport
+          )
+        );
+
+        answer = renderTemplate(prompts.templates.noAnswer, {
+          query: standaloneQuery,
+        });
+        if (parsedMatches.length > 0) {
+          advancedRAGResult = await advancedRAGQuery(
+            standaloneQuery,
+            parsedMatches,
+            topK,
+            namespace,
+            {
+              history,
+              filter,
+              config,
+              cacheReport,
+              prompts,
+              usage: usageReport,
+              trace,
+            }
+          );
+          answer = advancedRAGResult.finalAnswer;
+        }
+      } finally {
+        // Calls made before a failure are still spent
+        usage = await finishUsage(
+          res,
+          namespace,
+          "/sessions/messages",
+          usageReport
+        );
+      }
+
+      const now = new Date().toISOString();
+      await appendTurns(
+        session,
+        { role: "user", content, createdAt: now, standaloneQuery },
+        {
+          role: "assistant",
+          content: answer,
+          createdAt: now,
+          sources: advancedRAGResult?.sources ?? [],
+          claims: advancedRAGResult?.claims ?? [],
+          critiqueScore: advancedRAGResult?.critiqueScore ?? undefined,
+          confidence: advancedRAGResult?.confidence ?? undefined,
+          prompts: { set: prompts.set, version: prompts.version },
+        }
+      );
+
+      res.json({
+        ok: true,
+        sessionId: session.id,
+        standaloneQuery,
+        answer,
+        sources: advancedRAGResult?.sources ?? [],
+        claims: advancedRAGResult?.claims ?? [],
+        advancedRAG: advancedRAGResult && {
+          expandedQueries: advancedRAGResult.expandedQueries,
+          critiqueScore: advancedRAGResult.critiqueScore,
+          confidence: advancedRAGResult.confidence,
+          degraded: advancedRAGResult.degraded,
+          prompts: advancedRAGResult.prompts,
+        },
+        usage,
+        profile,
+        config,
+        cache: cacheReport,
+        ...(debug && { trace: traceSummary(trace) }),
+      } satisfies MessageResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.get(
+  "/namespaces",
+  authorize("read"),
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const namespaces = visibleNamespaces(
+        res,
+        await listNamespaces(),
+        (stats) => stats.name
+      );
+      res.json({ ok: true, namespaces } satisfies NamespacesResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.delete(
+  "/namespaces/:ns",
+  authorize("ingest"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const namespace = req.params.ns;
+      if (!allowNamespace(res, namespace)) return;
+      const deleted = await getVectorStore().deleteNamespace(namespace);
+      if (!deleted) {
+        return res
+          .status(404)
+          .json({ error: `Namespace not found: ${namespace}` });
+      }
+      await removeNamespaceDocuments(namespace);
+      await dropKeywordIndex(namespace);
+      await invalidateNamespace(namespace);
+
+      res.json({ ok: true, deleted: namespace } satisfies DeletedResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.get(
+  "/documents",
+  authorize("read"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const namespace =
+        typeof req.query.namespace === "string"
+          ? req.query.namespace
+          : undefined;
+      if (namespace && !allowNamespace(res, namespace)) return;
+      const documents = visibleNamespaces(
+        res,
+        await listDocuments(namespace),
+        (document) => document.namespace
+      );
+      res.json({ ok: true, documents } satisfies DocumentsResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.get(
+  "/documents/:id",
+  authorize("read"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const namespace =
+        typeof req.query.namespace === "string"
+          ? req.query.namespace
+          : "default";
+      if (!allowNamespace(res, namespace)) return;
+      const document = await getDocument(req.params.id, namespace);
+      if (!document) {
+        return res
+          .status(404)
+          .json({ error: `Document not found: ${req.params.id}` });
+      }
+
+      res.json({ ok: true, document } satisfies DocumentResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.delete(
+  "/documents/:id",
+  authorize("ingest"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const namespace =
+        typeof req.query.namespace === "string"
+          ? req.query.namespace
+          : "default";
+      if (!allowNamespace(res, namespace)) return;
+      const document = await getDocument(req.params.id, namespace);
+      if (!document) {
+        return res
+          .status(404)
+          .json({ error: `Document not found: ${req.params.id}` });
+      }
+
+      await removeDocumentChunks(document);
+      await removeDocument(document.id, namespace);
+
+      res.json({
+        ok: true,
+        deleted: document.id,
+        chunks: document.chunkCount,
+      } satisfies DeletedResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+// Version list without the templates, which GET /prompts/:name returns
+function summarizePromptSet(set: PromptSet) {
+  return {
+    name: set.name,
+    version: set.current,
+    versions: set.versions.map(({ id, createdAt }) => ({ id, createdAt })),
+    namespaces: set.namespaces,
+  };
+}
+
+app.get(
+  "/prompts",
+  authorize("admin"),
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const sets = await listPromptSets();
+      res.json({
+        ok: true,
+        promptSets: sets.map(summarizePromptSet),
+      } satisfies PromptSetsResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.get(
+  "/prompts/:name",
+  authorize("admin"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const set = await getPromptSet(req.params.name);
+      if (!set) {
+        return res
+          .status(404)
+          .json({ error: `Prompt set not found: ${req.params.name}` });
+      }
+
+      // ?version= shows an earlier version without activating it
+      const id =
+        typeof req.query.version === "string" ? req.query.version : set.current;
+      const version = set.versions.find((v) => v.id === id);
+      if (!version) {
+        return res
+          .status(404)
+          .json({ error: `Prompt version not found: ${id}` });
+      }
+
+      res.json({
+        ok: true,
+        promptSet: {
+          ...summarizePromptSet(set),
+          templates: version.templates,
+          shown: version.id,
+        },
+      } satisfies PromptSetDetailsResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.put(
+  "/prompts/:name",
+  authorize("admin"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name } = req.params;
+      if (!PROMPT_SET_NAME.test(name) || name.length > 64) {
+        return res.status(400).json({
+          error: "Invalid prompt set name",
+          details: "Use lowercase letters, digits and dashes",
+        });
+      }
+      const parsed = PromptSetUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid parameters",
+          details: parsed.error.flatten(),
+        });
+      }
+      const { templates, version, namespaces } = parsed.data;
+
+      let set = await getPromptSet(name);
+      if (!set && !templates) {
+        return res.status(404).json({ error: `Prompt set not found: ${name}` });
+      }
+
+      if (templates) {
+        set = await savePromptTemplates(name, templates);
+      } else if (version) {
+        set = await activatePromptVersion(name, version);
+        if (!set) {
+          return res
+            .status(404)
+            .json({ error: `Prompt version not found: ${version}` });
+        }
+      }
+      if (namespaces) {
+        set = await bindPromptNamespaces(name, namespaces);
+      }
+
+      res.json({
+        ok: true,
+        promptSet: summarizePromptSet(set!),
+      } satisfies PromptSetResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+// Admins see every key's usage; other keys only their own
+app.get(
+  "/usage",
+  authorize("read"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = UsageQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid parameters",
+          details: parsed.error.flatten(),
+        });
+      }
+      const { namespace } = parsed.data;
+      if (namespace && !allowNamespace(res, namespace)) return;
+
+      // Defaults to the current calendar month (UTC)
+      const now = new Date();
+      const from = parsed.data.from
+        ? new Date(parsed.data.from)
+        : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+      const to = parsed.data.to ? new Date(parsed.data.to) : now;
+
+      const { apiKey } = res.locals;
+      const { totals, groups } = await aggregateUsage({
+        from,
+        to,
+        namespace,
+        apiKeyId: apiKey && !hasRole(apiKey, "admin") ? apiKey.id : undefined,
       });
+
+      res.json({
+        ok: true,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        totals,
+        groups: visibleNamespaces(res, groups, (group) => group.namespace),
+      } satisfies UsageResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.get(
+  "/budgets",
+  authorize("admin"),
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const namespaces = visibleNamespaces(
+        res,
+        Object.keys(await listBudgets()),
+        (namespace) => namespace
+      );
+      const budgets = await Promise.all(namespaces.map(getBudgetStatus));
+      res.json({ ok: true, budgets } satisfies BudgetsResponse);
     } catch (err) {
       next(err);
     }
   }
 );
 
-app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
-  console.error(err);
+app.put(
+  "/budgets/:namespace",
+  authorize("admin"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!allowNamespace(res, req.params.namespace)) return;
+      const parsed = BudgetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid parameters",
+          details: parsed.error.flatten(),
+        });
+      }
+
+      await setBudget(req.params.namespace, parsed.data.monthlyBudgetUsd);
+      const budget = await getBudgetStatus(req.params.namespace);
+      res.json({ ok: true, budget } satisfies BudgetResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.get(
+  "/keys",
+  authorize("admin"),
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const apiKeys = await listApiKeys();
+      res.json({ ok: true, apiKeys } satisfies ApiKeysResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.post(
+  "/keys",
+  authorize("admin"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = NewApiKeySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid parameters",
+          details: parsed.error.flatten(),
+        });
+      }
+
+      // The secret is shown once; only its hash is stored
+      const { apiKey, secret } = await createApiKey(parsed.data);
+      res
+        .status(201)
+        .json({ ok: true, apiKey, secret } satisfies NewApiKeyResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.delete(
+  "/keys/:id",
+  authorize("admin"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const apiKey = await revokeApiKey(req.params.id);
+      if (!apiKey) {
+        return res
+          .status(404)
+          .json({ error: `API key not found: ${req.params.id}` });
+      }
+
+      res.json({ ok: true, apiKey } satisfies ApiKeyResponse);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+app.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
+  res.locals.log.error("Unhandled error", {
+    method: req.method,
+    path: req.path,
+    err,
+  });
   res.status(500).json({ error: "Internal server error" });
 });
 
 const port = Number(process.env.PORT || 3000);
-app.listen(port, async () => {
-  await ensurePineconeIndex();
-  console.log(`Server listening on http://localhost:${port}`);
+
+/**
+ * Validate config files and prepare storage, then accept traffic. Any failure
+ * exits before the server listens, rather than on the first request.
+ */
+async function start() {
+  // Fail if the profiles or pricing files are invalid or a profile names a
+  // prompt set that does not exist
+  loadPricing();
+  for (const [name, profile] of Object.entries(loadProfiles())) {
+    if (profile.promptSet && !(await getPromptSet(profile.promptSet))) {
+      throw new Error(
+        `Profile ${name} uses unknown prompt set: ${profile.promptSet}`
+      );
+    }
+  }
+  if (AUTH_MODE !== "none" && !(await hasApiKeys())) {
+    logger.warn(
+      "No API keys: set ADMIN_API_KEY to issue keys, or AUTH_MODE=none for local use"
+    );
+  }
+  await getVectorStore().init();
+  const resumed = await resumeIngestionJobs();
+  if (resumed > 0) {
+    logger.info("Resumed interrupted ingestion jobs", { count: resumed });
+  }
+
+  app.listen(port, (error) => {
+    if (error) {
+      logger.error("Server failed to listen", { port, error });
+      process.exit(1);
+    }
+    logger.info("Server listening", { port });
+  });
+}
+
+start().catch((error) => {
+  logger.error("Server failed to start", { error });
+  process.exit(1);
 });
@@ -1,16 +1,30 @@
-import OpenAI from "openai";
-import { getAdvancedRAGConfig } from "../config/advanced-rag.config.js";
-import { getPineconeIndex } from "./pinecone.ts";
-
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
-if (!OPENAI_API_KEY) {
-  throw new Error("Missing OPENAI_API_KEY");
-}
-
-const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-
-const CHAT_MODEL = process.env.GPT_MODEL || "gpt-4o-mini";
+import { cached, CacheReport } from "../cache/index.ts";
+import {
+  AdvancedRAGConfig,
+  getAdvancedRAGConfig,
+} from "../config/advanced-rag.config.js";
+import { Claim, extractClaims } from "./citations.ts";
+import {
+  completeChat,
+  completeJSON,
+  streamChat,
+  UsageReport,
+} from "../llm/index.ts";
+import { fieldsToMetadata, RecordFilter } from "../vector-store/index.ts";
+import { logger } from "../utils/logger.ts";
+import { isTransientError, withRetry } from "../utils/retry.ts";
+import { critiquedAnswers, critiqueScores } from "../utils/metrics.ts";
+import { Trace, withSpan } from "../utils/trace.ts";
+import { HybridHit, hybridSearch } from "./hybrid-search.ts";
+import {
+  defaultPromptTemplates,
+  PromptRef,
+  PromptTemplates,
+  renderTemplate,
+  resolvePrompts,
+  ResolvedPrompts,
+} from "./prompts.ts";
+import { getReranker } from "./rerankers.ts";
 
 export interface QueryDetail {
   query: string;
@@ -21,14 +35,119 @@ export interface QueryDetail {
   searchNeeded: boolean;
 }
 
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Pipeline stages with their own timeout, retries and fallback. Expansion
+ * falls back to the original query, a search to no hits, reranking to
+ * retrieval order, synthesis to the ranked sources alone, critique to the
+ * unreviewed answer and citations to no claims.
+ */
+export type PipelineStage =
+  "expansion" | "search" | "rerank" | "synthesis" | "critique" | "citations";
+
+export type CorrectionStrategy = "initial" | "requery" | "widen" | "narrow";
+
+/**
+ * One answer produced by the self-critique loop. Attempt 0 is the initial
+ * answer; later attempts apply a strategy chosen from the previous critique.
+ */
+export interface CritiqueAttempt {
+  attempt: number;
+  strategy: CorrectionStrategy;
+  /** Refined search queries, for requery attempts */
+  queries?: string[];
+  contextDocuments: number;
+  answer: string;
+  score: number;
+  details: Record<string, any>;
+}
+
+export interface RankedDocument {
+  text: string;
+  relevanceScore: number;
+  /** Position in `documents` and `sources` */
+  index: number;
+}
+
 export interface AdvancedRAGResult {
   query: string;
   expandedQueries: string[];
-  documents: any[];
-  rerankedDocuments: any[];
+  /** Texts of the candidate chunks, in the same order as `sources` */
+  documents: string[];
+  sources: Array<
+    ReturnType<typeof fieldsToMetadata> & {
+      vectorScore?: number;
+      keywordScore?: number;
+    }
+  >;
+  rerankedDocuments: RankedDocument[];
   finalAnswer: string;
-  critiqueScore: number;
-  confidence: number;
+  /** Claims in the final answer with their supporting sources and quotes */
+  claims: Claim[];
+  /** Citations removed because they referenced documents outside the context */
+  droppedCitations: number;
+  /** Critique of the initial answer; null when self-critique is disabled */
+  critiqueScore: number | null;
+  /** Critique score of the chosen answer; null when self-critique is disabled */
+  confidence: number | null;
+  /** Every answer the self-critique loop produced, in order */
+  attempts: CritiqueAttempt[];
+  /** Stages that failed after retries and fell back */
+  degraded: PipelineStage[];
+  /** Prompt templates the answer was generated with */
+  prompts: PromptRef;
+}
+
+/**
+ * Rewrite a follow-up question as a standalone question using the conversation
+ * history, so retrieval works for questions like "and how does he answer it?"
+ */
+export async function condenseQuestion(
+  history: ChatTurn[],
+  question: string,
+  config: AdvancedRAGConfig = getAdvancedRAGConfig(),
+  usage?: UsageReport
+): Promise<string> {
+  if (history.length === 0) return question;
+
+  const transcript = history
+    .map(
+      (turn) =>
+        `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`
+    )
+    .join("\n");
+
+  const prompt = `Given the conversation below and a follow-up question, rewrite the follow-up as a standalone question that can be understood without the conversation. Resolve pronouns and references to earlier topics. If it is already standalone, return it unchanged.
+
+  Conversation:
+  ${transcript}
+
+  Follow-up question: ${question}
+
+  Standalone question:`;
+
+  const standalone = await completeChat(
+    "condense",
+    {
+      messages: [
+        {
+          role: "system",
+          content:
+            "You rewrite follow-up questions into standalone search questions. Respond with the question only.",
+        },
+        { role: "user", content: prompt },
+      ],
+      temperature: 0,
+    },
+    config.llm,
+    usage
+  );
+
+  return standalone || question;
 }
 
 /**
@@ -37,35 +156,35 @@ export interface AdvancedRAGResult {
  */
 export async function generateExpandedQueries(
   originalQuery: string,
-  numQueries: number = 3
+  numQueries: number = 3,
+  config: AdvancedRAGConfig = getAdvancedRAGConfig(),
+  prompts: PromptTemplates = defaultPromptTemplates(),
+  usage?: UsageReport
 ): Promise<string[]> {
-  const config = getAdvancedRAGConfig();
-
   if (!config.queryExpansion.enabled) {
     return [originalQuery];
   }
 
-  const prompt = `Given the following user query, generate ${numQueries} different but related queries that would help retrieve comprehensive information. 
-  Make each query focus on different aspects or perspectives of the original question.
-  
-  Original Query: "${originalQuery}"
-  
-  Generate ${numQueries} expanded queries (one per line):`;
-
-  const completion = await openai.chat.completions.create({
-    model: CHAT_MODEL,
-    messages: [
-      {
-        role: "system",
-        content:
-          "You are an expert at expanding queries for comprehensive information retrieval. Generate diverse, focused queries.",
-      },
-      { role: "user", content: prompt },
-    ],
-    temperature: config.queryExpansion.temperature,
-  });
+  const variables = { query: originalQuery, numQueries };
+  const response = await completeChat(
+    "expansion",
+    {
+      messages: [
+        {
+          role: "system",
+          content: renderTemplate(prompts.expansion.system, variables),
+        },
+        {
+          role: "user",
+          content: renderTemplate(prompts.expansion.user, variables),
+        },
+      ],
+      temperature: config.queryExpansion.temperature,
+    },
+    config.llm,
+    usage
+  );
 
-  const response = completion.choices[0]?.message?.content?.trim() ?? "";
   const queries = response
     .split("\n")
     .map((q) => q.trim())
@@ -77,26 +196,73 @@ export async function generateExpandedQueries(
 }
 
 /**
- * Critique the quality and relevance of retrieved documents and generated response
- * This implements the Self-RAG critique mechanism
+ * Turn critique feedback into new search queries aimed at what the answer
+ * is missing, for the corrective requery step
  */
-export async function critiqueResponse(
+export async function generateRefinedQueries(
+  originalQuery: string,
+  answer: string,
+  feedback: string,
+  numQueries: number = 3,
+  config: AdvancedRAGConfig = getAdvancedRAGConfig(),
+  usage?: UsageReport
+): Promise<string[]> {
+  const prompt = `An answer to the question below was judged incomplete. Write ${numQueries} search queries that would retrieve the missing information.
+
+  Question: "${originalQuery}"
+
+  Answer so far:
+  ${answer}
+
+  Reviewer feedback:
+  ${feedback || "The answer does not fully address the question."}
+
+  Search queries (one per line):`;
+
+  const response = await completeChat(
+    "expansion",
+    {
+      messages: [
+        {
+          role: "system",
+          content:
+            "You write focused search queries that fill gaps in an answer. Respond with the queries only.",
+        },
+        { role: "user", content: prompt },
+      ],
+      temperature: 0.3,
+    },
+    config.llm,
+    usage
+  );
+
+  return response
+    .split("\n")
+    .map((q) => q.replace(/^\s*(?:\d+[.)]|[-*])\s*/, "").trim())
+    .filter((q) => q.length > 0)
+    .slice(0, numQueries);
+}
+
+/**
+ * Ask the critique model to score a response; throws when the call fails or
+ * returns invalid JSON
+ */
+export async function requestCritique(
   query: string,
   response: string,
-  context?: string[]
+  context: string[] | undefined,
+  config: AdvancedRAGConfig,
+  prompts: PromptTemplates,
+  usage?: UsageReport
 ): Promise<{ score: number; details: Record<string, any> }> {
-  const contextInfo = context ? `\nContext used: ${context.join(" | ")}` : "";
+  const variables = {
+    query,
+    response,
+    context: context?.join(" | ") || "(none)",
+  };
 
-  const prompt = `Critically evaluate the following response to the user query. Rate it from 0.0 to 1.0 and provide detailed feedback.
-  
-  Query: "${query}"
-  Response: "${response}"${contextInfo}
-  
-  Evaluate on these criteria:
-  1. Relevance to the query (0.0-1.0)
-  2. Factual accuracy (0.0-1.0)
-  3. Completeness of answer (0.0-1.0)
-  4. Clarity and coherence (0.0-1.0)
+  // The JSON format is part of the pipeline, not the template
+  const prompt = `${renderTemplate(prompts.critique.user, variables)}
   
   Respond in this exact JSON format:
   {
@@ -110,28 +276,55 @@ export async function critiqueResponse(
     }
   }`;
 
-  try {
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
+  const parsed = await completeJSON<{ score?: unknown; details?: unknown }>(
+    "critique",
+    {
       messages: [
         {
           role: "system",
-          content: "You are an expert evaluator. Respond only with valid JSON.",
+          content: renderTemplate(prompts.critique.system, variables),
         },
         { role: "user", content: prompt },
       ],
       temperature: 0.1,
-    });
+    },
+    config.llm,
+    usage
+  );
 
-    const responseText = completion.choices[0]?.message?.content?.trim() ?? "";
-    const parsed = JSON.parse(responseText);
+  const { score, details } = parsed ?? {};
+  return {
+    score: Number(score) || 0.0,
+    details:
+      typeof details === "object" && details !== null
+        ? (details as Record<string, any>)
+        : {},
+  };
+}
 
-    return {
-      score: parsed.score || 0.0,
-      details: parsed.details || {},
-    };
+/**
+ * Critique the quality and relevance of retrieved documents and generated response
+ * This implements the Self-RAG critique mechanism
+ */
+export async function critiqueResponse(
+  query: string,
+  response: string,
+  context?: string[],
+  config: AdvancedRAGConfig = getAdvancedRAGConfig(),
+  prompts: PromptTemplates = defaultPromptTemplates(),
+  usage?: UsageReport
+): Promise<{ score: number; details: Record<string, any> }> {
+  try {
+    return await requestCritique(
+      query,
+      response,
+      context,
+      config,
+      prompts,
+      usage
+    );
   } catch (error) {
-    console.error("Error parsing critique response:", error);
+    logger.warn("Critique failed", { error });
     return {
       score: 0.5,
       details: { error: "Failed to parse critique" },
@@ -140,30 +333,38 @@ export async function critiqueResponse(
 }
 
 /**
- * Rerank documents using Cohere's reranker for better relevance
- * This implements the reranking technique mentioned in the article
+ * Keep retrieval order, scored by reciprocal rank so values stay in (0, 1]
+ */
+function retrievalOrder(documents: string[], topN: number): RankedDocument[] {
+  return documents.slice(0, topN).map((doc, index) => ({
+    text: doc,
+    relevanceScore: 1 / (index + 1),
+    index,
+  }));
+}
+
+/**
+ * Rerank documents against the query with the configured reranker
+ * Returns at most `reranking.topN` documents, best first, with scores in [0, 1]
  */
 export async function rerankDocuments(
   query: string,
   documents: string[],
-  topN: number = 5
-): Promise<{ text: string; relevanceScore: number }[]> {
-  const config = getAdvancedRAGConfig();
+  config: AdvancedRAGConfig = getAdvancedRAGConfig(),
+  usage?: UsageReport
+): Promise<RankedDocument[]> {
+  const topN = config.reranking.topN;
 
   if (!config.reranking.enabled) {
-    // Return documents with simple ranking if reranking is disabled
-    return documents.map((doc, index) => ({
-      text: doc,
-      relevanceScore: 1.0 - index * 0.1,
-    }));
+    return retrievalOrder(documents, topN);
   }
 
-  // Use Pinecone's built-in reranking (already done in the search)
-  // Just return documents with relevance scores based on their order
-  // The actual reranking happens in the Pinecone search with the rerank parameter
-  return documents.map((doc, index) => ({
-    text: doc,
-    relevanceScore: 1.0 - index * 0.1, // Higher score for earlier documents
+  const reranker = getReranker(config.reranking, config.llm, usage);
+  const ranked = await reranker.rerank(query, documents, topN);
+  return ranked.map((result) => ({
+    text: documents[result.index],
+    relevanceScore: result.score,
+    index: result.index,
   }));
 }
 
@@ -174,249 +375,644 @@ export async function rerankDocuments(
 export async function synthesizeAnswer(
   query: string,
   documents: string[],
-  critiqueScore: number
+  critiqueScore: number,
+  options: {
+    onToken?: (token: string) => void;
+    history?: ChatTurn[];
+    /** Critique of a previous draft for this answer to address */
+    feedback?: string;
+    /** Overrides `synthesis.maxContextDocuments`, to widen the context */
+    maxDocuments?: number;
+    config?: AdvancedRAGConfig;
+    prompts?: PromptTemplates;
+    usage?: UsageReport;
+    /** Stops generation, and with it `onToken` calls */
+    signal?: AbortSignal;
+  } = {}
 ): Promise<string> {
-  const config = getAdvancedRAGConfig();
+  const {
+    onToken,
+    history = [],
+    feedback,
+    config = getAdvancedRAGConfig(),
+    prompts = defaultPromptTemplates(),
+    usage,
+  } = options;
   const contextLimit = Math.min(
     documents.length,
-    config.synthesis.maxContextDocuments
+    options.maxDocuments ?? config.synthesis.maxContextDocuments
   );
   const selectedDocs = documents.slice(0, contextLimit);
 
-  let prompt = `You are an expert on St Thomas Aquinas and philosophical topics. 
-  Using the context below, provide a comprehensive and accurate answer to the user's question.
-  
-  Context (${selectedDocs.length} documents):
-  ${selectedDocs.map((doc, i) => `[${i + 1}] ${doc}`).join("\n\n")}
-  
-  Question: ${query}
-  
-  Instructions:
-  - Base your answer primarily on the provided context
-  - If the context doesn't contain enough information, acknowledge this limitation
-  - Be precise and cite specific parts of the context when relevant
-  - Maintain academic rigor while being accessible`;
+  const variables = {
+    query,
+    documentCount: selectedDocs.length,
+    context: selectedDocs.map((doc, i) => `[${i + 1}] ${doc}`).join("\n\n"),
+  };
+  let prompt = renderTemplate(prompts.synthesis.user, variables);
 
   if (config.synthesis.includeCitations) {
-    prompt += `\n- Include citations to specific document numbers when referencing information`;
+    prompt += `\n- Include citations to specific document numbers, like [2], when referencing information`;
+  }
+
+  if (feedback) {
+    prompt += `\n- A reviewer critiqued a previous draft of this answer; address their feedback: ${feedback}`;
   }
 
   prompt += `\n\nAnswer:`;
 
-  const completion = await openai.chat.completions.create({
-    model: CHAT_MODEL,
+  const request = {
     messages: [
       {
-        role: "system",
-        content:
-          "You are a scholarly expert on St Thomas Aquinas and philosophy. Provide accurate, well-reasoned answers based on the given context.",
+        role: "system" as const,
+        content: renderTemplate(prompts.synthesis.system, variables),
       },
-      { role: "user", content: prompt },
+      // Prior turns of a conversational session, oldest first
+      ...history
+        .slice(-config.conversation.maxHistoryTurns)
+        .map((turn) => ({ role: turn.role, content: turn.content })),
+      { role: "user" as const, content: prompt },
     ],
     temperature: config.synthesis.temperature,
-    max_tokens: 4000, // Increased to ensure full answers
-  });
+    maxTokens: 4000, // Increased to ensure full answers
+    signal: options.signal,
+  };
 
-  const answer = completion.choices[0]?.message?.content?.trim() ?? "";
-  console.log("Generated answer length:", answer.length);
+  let answer: string;
+  if (onToken) {
+    // Stream tokens to the caller as they are generated
+    answer = "";
+    for await (const token of streamChat(
+      "synthesis",
+      request,
+      config.llm,
+      usage
+    )) {
+      answer += token;
+      onToken(token);
+    }
+    answer = answer.trim();
+  } else {
+    answer = await completeChat("synthesis", request, config.llm, usage);
+  }
 
   return answer;
 }
 
+export type AdvancedRAGEvent =
+  | { type: "queries"; expandedQueries: string[] }
+  | { type: "token"; token: string }
+  | { type: "revision"; answer: string; critiqueScore: number };
+
+/**
+ * Pick the next corrective step from a critique. Gaps in the answer call for
+ * new retrieval (or, once requeried, a wider context); irrelevant or
+ * inaccurate answers call for a narrower, higher-ranked context.
+ */
+function chooseCorrection(
+  details: Record<string, any>,
+  tried: CorrectionStrategy[],
+  canWiden: boolean
+): CorrectionStrategy {
+  const score = (key: string) => {
+    const value = Number(details[key]);
+    return Number.isFinite(value) ? value : 1;
+  };
+  const incomplete =
+    score("completeness") <= Math.min(score("relevance"), score("accuracy"));
+
+  if (!incomplete) return "narrow";
+  return tried.includes("requery") && canWiden ? "widen" : "requery";
+}
+
+interface AdvancedRAGOptions {
+  onEvent?: (event: AdvancedRAGEvent) => void;
+  history?: ChatTurn[];
+  filter?: RecordFilter;
+  config?: AdvancedRAGConfig;
+  /** Collects cache hits and misses for the response metadata */
+  cacheReport?: CacheReport;
+  /** Resolved for the namespace and config when not given */
+  prompts?: ResolvedPrompts;
+  /** Collects every LLM call's tokens, cost and latency */
+  usage?: UsageReport;
+  /** Collects a timed span per pipeline stage; its logger carries the request ID */
+  trace?: Trace;
+}
+
 /**
  * Main advanced RAG function that orchestrates all techniques
+ * Progress is reported through `onEvent` when streaming to a client
+ * `filter` restricts every expanded-query search to matching chunks
+ * `config` is the effective config for this request, defaulting to the
+ * environment's
+ * Standalone answers are cached when caching is on; a cached answer is
+ * streamed as a single token
+ * The prompt set and version used are recorded in the result
+ * LLM calls are recorded in `usage`; a cached answer makes none
+ * Each stage is timed as a span of `trace`: expansion, a search per query,
+ * fuse, rerank, synthesis, critique, each improve attempt and citations
  */
 export async function advancedRAGQuery(
   query: string,
-  vectorSearchResults: any[],
-  topK: number = 5
+  vectorSearchResults: HybridHit[],
+  topK: number = 5,
+  namespace: string = "default",
+  options: AdvancedRAGOptions = {}
 ): Promise<AdvancedRAGResult> {
-  console.log("Starting advanced RAG processing for query:", query);
-
-  const config = getAdvancedRAGConfig();
+  const { onEvent, history, filter, config = getAdvancedRAGConfig() } = options;
+  const prompts = options.prompts ?? (await resolvePrompts(namespace, config));
+
+  // Answers in a conversation depend on its history, so are never cached
+  if (history && history.length > 0) {
+    return runAdvancedRAG(query, vectorSearchResults, topK, namespace, {
+      ...options,
+      config,
+      prompts,
+    });
+  }
 
-  // Step 1: Query Expansion
-  const expandedQueries = await generateExpandedQueries(
-    query,
-    config.queryExpansion.numExpandedQueries
+  let computed = false;
+  const result = await cached(
+    "answer",
+    {
+      namespace,
+      key: [query, topK, filter, config, prompts.set, prompts.version],
+      // A fallback answer should not outlive the outage behind it
+      cacheable: (result) => result.degraded.length === 0,
+    },
+    config,
+    options.cacheReport,
+    () => {
+      computed = true;
+      return runAdvancedRAG(query, vectorSearchResults, topK, namespace, {
+        ...options,
+        config,
+        prompts,
+      });
+    }
   );
-  console.log("Generated expanded queries:", expandedQueries);
 
-  // Step 2: For each expanded query, perform Pinecone search and collect results
-  // If Pinecone is unavailable for some reason, fall back to provided vectorSearchResults
-  let fusedMatches: any[] = [];
-  try {
-    const index = await getPineconeIndex();
+  if (!computed && onEvent) {
+    onEvent({ type: "queries", expandedQueries: result.expandedQueries });
+    if (result.finalAnswer) {
+      onEvent({ type: "token", token: result.finalAnswer });
+    }
+  }
+  return result;
+}
 
-    const searchTopK = Math.max(topK * 3, 15);
+async function runAdvancedRAG(
+  query: string,
+  vectorSearchResults: HybridHit[],
+  topK: number,
+  namespace: string,
+  options: AdvancedRAGOptions & {
+    config: AdvancedRAGConfig;
+    prompts: ResolvedPrompts;
+  }
+): Promise<AdvancedRAGResult> {
+  const { onEvent, history, filter, config, cacheReport, usage, trace } =
+    options;
+  const log = trace?.log ?? logger;
+  const { templates } = options.prompts;
+  const promptRef: PromptRef = {
+    set: options.prompts.set,
+    version: options.prompts.version,
+  };
+  log.debug("Advanced RAG started", { namespace, topK });
+
+  // Each stage gets its own timeout and retries; once those are spent it
+  // falls back and is reported in `degraded`
+  const degraded: PipelineStage[] = [];
+  const runStage = async <T, F>(
+    stage: PipelineStage,
+    fn: (signal: AbortSignal) => Promise<T>,
+    fallback: F,
+    spanOptions: {
+      attributes?: Record<string, unknown>;
+      shouldRetry?: (error: unknown) => boolean;
+    } = {}
+  ): Promise<T | F> => {
+    try {
+      return await withSpan(trace, stage, spanOptions.attributes, () =>
+        withRetry(fn, {
+          label: `${stage} stage`,
+          retries: config.performance.maxRetries,
+          timeoutMs:
+            config.performance.stageTimeoutMs[stage] ??
+            config.performance.timeoutMs,
+          shouldRetry: spanOptions.shouldRetry,
+          log,
+        })
+      );
+    } catch (error) {
+      log.warn("Stage failed, falling back", { stage, error });
+      if (!degraded.includes(stage)) degraded.push(stage);
+      return fallback;
+    }
+  };
 
-    // Perform searches in parallel for all expanded queries
+  // Step 1: Query Expansion, falling back to the original query
+  const expandedQueries = config.queryExpansion.enabled
+    ? await runStage(
+        "expansion",
+        () =>
+          cached(
+            "expansion",
+            {
+              key: [
+                query,
+                config.queryExpansion,
+                config.llm.models.expansion,
+                templates.expansion,
+              ],
+            },
+            config,
+            cacheReport,
+            () =>
+              generateExpandedQueries(
+                query,
+                config.queryExpansion.numExpandedQueries,
+                config,
+                templates,
+                usage
+              )
+          ),
+        [query]
+      )
+    : [query];
+  log.debug("Expanded queries", { count: expandedQueries.length });
+  onEvent?.({ type: "queries", expandedQueries });
+
+  // Step 2: For each expanded query, run a (hybrid) search of the namespace and collect results
+  // A failed search contributes no hits
+  const searchTopK = Math.max(topK * 3, 15);
+  const searchQueries = async (queries: string[]) => {
+    // Perform searches in parallel for all queries
     const perQueryResults = await Promise.all(
-      expandedQueries.map(async (q) => {
-        const results = await index.searchRecords({
-          query: {
-            inputs: { text: q },
-            topK: searchTopK,
-          },
-          fields: ["chunk_text", "source", "chunk_index"],
-          rerank: {
-            model: "bge-reranker-v2-m3",
-            topN: Math.min(searchTopK, 15),
-            rankFields: ["chunk_text"],
-          },
-        });
-        const hits = results.result.hits ?? [];
-        return hits;
-      })
+      queries.map((q) =>
+        runStage(
+          "search",
+          () =>
+            hybridSearch(
+              namespace,
+              q,
+              { topK: searchTopK, topN: Math.min(searchTopK, 15), filter },
+              config,
+              cacheReport
+            ),
+          [],
+          { attributes: { query: q } }
+        )
+      )
     );
 
     // Reciprocal Rank Fusion (RRF)
-    const k = config.hybridSearch.rrfK;
-    const scoreMap: Map<string, { score: number; hit: any }> = new Map();
-
-    for (const hits of perQueryResults) {
-      for (let rank = 0; rank < hits.length; rank++) {
-        const hit = hits[rank];
-        const id = String(
-          (hit as any).id ??
-            `${(hit as any).fields?.source}-${(hit as any).fields?.chunk_index}`
-        );
-        const contribution = 1 / (k + rank + 1);
-        const existing = scoreMap.get(id);
-        if (existing) {
-          existing.score += contribution;
-        } else {
-          scoreMap.set(id, { score: contribution, hit });
+    return withSpan(trace, "fuse", { queries: queries.length }, async () => {
+      const k = config.hybridSearch.rrfK;
+      const scoreMap: Map<string, { score: number; hit: HybridHit }> =
+        new Map();
+
+      for (const hits of perQueryResults) {
+        for (let rank = 0; rank < hits.length; rank++) {
+          const hit = hits[rank];
+          const contribution = 1 / (k + rank + 1);
+          const existing = scoreMap.get(hit._id);
+          if (existing) {
+            existing.score += contribution;
+          } else {
+            scoreMap.set(hit._id, { score: contribution, hit });
+          }
         }
       }
-    }
 
-    fusedMatches = Array.from(scoreMap.values())
-      .sort((a, b) => b.score - a.score)
-      .map((e) => e.hit)
-      .slice(0, Math.max(topK * 2, 10));
-  } catch (err) {
-    console.warn(
-      "Falling back to provided vectorSearchResults due to error:",
-      err
-    );
+      return Array.from(scoreMap.values())
+        .sort((a, b) => b.score - a.score)
+        .map((e) => e.hit)
+        .slice(0, Math.max(topK * 2, 10));
+    });
+  };
+
+  let fusedMatches = await searchQueries(expandedQueries);
+  if (fusedMatches.length === 0 && degraded.includes("search")) {
+    // If every search failed, fall back to the caller's vectorSearchResults
+    log.warn("Every search failed, using the provided vectorSearchResults");
     fusedMatches = vectorSearchResults ?? [];
   }
 
   // Step 3: Extract document texts from fused results
-  console.log("Raw fused search results:", fusedMatches.length);
 
-  const documents = fusedMatches
-    .map((result: any) => (result.fields as any)?.chunk_text || "")
-    .filter(Boolean);
-
-  console.log("Extracted documents:", documents.length);
-  if (documents.length > 0) {
-    console.log("First document preview:", documents[0].substring(0, 200));
-  }
+  // Candidate pool; corrective requeries append to it, so indexes stay valid
+  const documents: string[] = [];
+  const sources: AdvancedRAGResult["sources"] = [];
+  const pooledIds = new Set<string>();
+  const addToPool = (results: HybridHit[]) => {
+    let added = 0;
+    for (const result of results) {
+      const text = result.fields?.chunk_text;
+      if (!text || pooledIds.has(result._id)) continue;
+
+      pooledIds.add(result._id);
+      documents.push(text);
+      sources.push({
+        ...fieldsToMetadata(result.fields),
+        vectorScore: result.vectorScore,
+        keywordScore: result.keywordScore,
+      });
+      added++;
+    }
+    return added;
+  };
+  addToPool(fusedMatches);
+  log.debug("Fused search results", {
+    matches: fusedMatches.length,
+    documents: documents.length,
+  });
 
   if (documents.length === 0) {
-    const answer =
-      "I don't have enough information in my knowledge base to answer this question accurately.";
+    const answer = config.synthesis.enabled
+      ? renderTemplate(templates.noAnswer, { query })
+      : "";
+    const critiqued = config.synthesis.enabled && config.selfCritique.enabled;
     return {
       query,
       expandedQueries,
       documents: [],
+      sources: [],
       rerankedDocuments: [],
       finalAnswer: answer,
-      critiqueScore: 0.0,
-      confidence: 0.0,
+      claims: [],
+      droppedCitations: 0,
+      critiqueScore: critiqued ? 0.0 : null,
+      confidence: critiqued ? 0.0 : null,
+      attempts: [],
+      degraded,
+      prompts: promptRef,
     };
   }
 
-  // Step 4: Rerank documents for better relevance
-  console.log("About to rerank", documents.length, "documents");
-  const rerankedDocuments = await rerankDocuments(query, documents, topK);
-  console.log("Reranked documents:", rerankedDocuments.length);
-  console.log("Sample reranked document:", rerankedDocuments[0]);
-
-  // Step 5: Generate initial answer
-  console.log(
-    "Generating answer with",
-    rerankedDocuments.length,
-    "reranked documents"
+  // Step 4: Rerank documents for better relevance, keeping retrieval order
+  // if the reranker fails
+  const rerankedDocuments = await runStage(
+    "rerank",
+    () => rerankDocuments(query, documents, config, usage),
+    retrievalOrder(documents, config.reranking.topN)
   );
-  const initialAnswer = await synthesizeAnswer(
+  log.debug("Reranked documents", { count: rerankedDocuments.length });
+
+  // Retrieval only, or synthesis failed: the reranked sources are the result
+  const sourcesOnly = (): AdvancedRAGResult => ({
     query,
-    rerankedDocuments.map((d) => d.text),
-    1.0
-  );
+    expandedQueries,
+    documents,
+    sources,
+    rerankedDocuments,
+    finalAnswer: "",
+    claims: [],
+    droppedCitations: 0,
+    critiqueScore: null,
+    confidence: null,
+    attempts: [],
+    degraded,
+    prompts: promptRef,
+  });
 
-  console.log("Initial answer length:", initialAnswer.length);
-  console.log("Initial answer preview:", initialAnswer.substring(0, 200));
+  if (!config.synthesis.enabled) return sourcesOnly();
 
-  // Step 6: Critique the response
-  const critique = await critiqueResponse(
-    query,
-    initialAnswer,
-    rerankedDocuments.map((d) => d.text)
+  // Step 5: Generate initial answer
+  const maxContext = config.synthesis.maxContextDocuments;
+  // Once tokens have reached the client, a retry would repeat them
+  let streamed = false;
+  const initialAnswer = await runStage(
+    "synthesis",
+    (signal) =>
+      synthesizeAnswer(
+        query,
+        rerankedDocuments.map((d) => d.text),
+        1.0,
+        {
+          signal,
+          onToken:
+            onEvent &&
+            ((token) => {
+              streamed = true;
+              onEvent({ type: "token", token });
+            }),
+          history,
+          config,
+          prompts: templates,
+          usage,
+        }
+      ),
+    null,
+    { shouldRetry: (error) => !streamed && isTransientError(error) }
   );
-  console.log("Critique score:", critique.score);
+  if (initialAnswer === null) return sourcesOnly();
 
-  // Step 7: If critique score is low, try to improve the answer
   let finalAnswer = initialAnswer;
-  let confidence = critique.score;
-
-  if (critique.score < config.selfCritique.threshold) {
-    console.log(
-      `Low critique score (${critique.score}), attempting to improve answer...`
-    );
+  let finalContext = rerankedDocuments.slice(0, maxContext);
+  const attempts: CritiqueAttempt[] = [];
+
+  // Step 6: Critique the response; if critique fails, keep the answer as is
+  const critique = config.selfCritique.enabled
+    ? await runStage(
+        "critique",
+        () =>
+          requestCritique(
+            query,
+            initialAnswer,
+            finalContext.map((d) => d.text),
+            config,
+            templates,
+            usage
+          ),
+        null
+      )
+    : null;
+
+  if (critique) {
+    log.debug("Critique scored", { score: critique.score });
+    critiqueScores.observe({}, critique.score);
+    critiquedAnswers.inc({
+      improvement:
+        critique.score < config.selfCritique.threshold
+          ? "triggered"
+          : "skipped",
+    });
+    attempts.push({
+      attempt: 0,
+      strategy: "initial",
+      contextDocuments: finalContext.length,
+      answer: initialAnswer,
+      score: critique.score,
+      details: critique.details,
+    });
 
-    let improvementAttempts = 0;
-    let bestAnswer = initialAnswer;
-    let bestScore = critique.score;
-
-    while (improvementAttempts < config.selfCritique.maxImprovementAttempts) {
-      improvementAttempts++;
-
-      // Try to generate a better answer with more focused context
-      const topDocuments = rerankedDocuments
-        .filter((d) => d.relevanceScore > 0.7)
-        .map((d) => d.text);
-
-      if (topDocuments.length > 0) {
-        const improvedAnswer = await synthesizeAnswer(
-          query,
-          topDocuments,
-          bestScore
-        );
-        const improvedCritique = await critiqueResponse(
-          query,
-          improvedAnswer,
-          topDocuments
-        );
-
-        if (improvedCritique.score > bestScore) {
-          bestAnswer = improvedAnswer;
-          confidence = improvedCritique.score;
-          console.log(
-            `Answer improved on attempt ${improvementAttempts}, new score: ${improvedCritique.score}`
+    // Step 7: While the best answer scores low, make corrective attempts,
+    // each steered by the critique of the one before. A failed synthesis or
+    // critique ends the loop with the best answer so far.
+    let best = attempts[0];
+    let ranked = rerankedDocuments;
+    let context = finalContext;
+
+    while (
+      best.score < config.selfCritique.threshold &&
+      attempts.length <= config.selfCritique.maxImprovementAttempts
+    ) {
+      const previous = attempts[attempts.length - 1];
+      const feedback = String(previous.details.feedback ?? "");
+      const strategy = chooseCorrection(
+        previous.details,
+        attempts.map((a) => a.strategy),
+        context.length < ranked.length
+      );
+
+      // One span per attempt, around its retrieval, synthesis and critique
+      const attempt = await withSpan(
+        trace,
+        "improve",
+        { attempt: attempts.length, strategy },
+        async (): Promise<CritiqueAttempt | null> => {
+          let queries: string[] | undefined;
+          if (strategy === "requery") {
+            queries = await runStage(
+              "expansion",
+              () =>
+                generateRefinedQueries(
+                  query,
+                  previous.answer,
+                  feedback,
+                  config.queryExpansion.numExpandedQueries,
+                  config,
+                  usage
+                ),
+              []
+            );
+            const added =
+              queries.length > 0 ? addToPool(await searchQueries(queries)) : 0;
+            if (added > 0) {
+              ranked = await runStage(
+                "rerank",
+                () => rerankDocuments(query, documents, config, usage),
+                ranked
+              );
+            }
+            context = ranked.slice(0, maxContext);
+          } else if (strategy === "widen") {
+            context = ranked.slice(
+              0,
+              context.length + Math.ceil(maxContext / 2)
+            );
+          } else {
+            context = context.slice(
+              0,
+              Math.max(2, Math.ceil(context.length / 2))
+            );
+          }
+
+          const answer = await runStage(
+            "synthesis",
+            (signal) =>
+              synthesizeAnswer(
+                query,
+                context.map((d) => d.text),
+                previous.score,
+                {
+                  signal,
+                  history,
+                  feedback,
+                  maxDocuments: context.length,
+                  config,
+                  prompts: templates,
+                  usage,
+                }
+              ),
+            null
+          );
+          if (answer === null) return null;
+
+          const attemptCritique = await runStage(
+            "critique",
+            () =>
+              requestCritique(
+                query,
+                answer,
+                context.map((d) => d.text),
+                config,
+                templates,
+                usage
+              ),
+            null
           );
+          if (!attemptCritique) return null;
+
+          return {
+            attempt: attempts.length,
+            strategy,
+            queries,
+            contextDocuments: context.length,
+            answer,
+            score: attemptCritique.score,
+            details: attemptCritique.details,
+          };
         }
+      );
+      if (!attempt) break;
+
+      attempts.push(attempt);
+      log.debug("Correction attempt scored", {
+        attempt: attempt.attempt,
+        strategy,
+        score: attempt.score,
+      });
+
+      if (attempt.score > best.score) {
+        best = attempt;
+        finalAnswer = attempt.answer;
+        finalContext = context;
       }
+    }
 
-      // Stop if we've reached a good score
-      if (bestScore >= config.selfCritique.threshold) {
-        break;
-      }
+    if (finalAnswer !== initialAnswer) {
+      onEvent?.({
+        type: "revision",
+        answer: finalAnswer,
+        critiqueScore: best.score,
+      });
     }
+  }
 
-    finalAnswer = bestAnswer;
-    confidence = bestScore;
+  // Step 8: Tie each claim in the answer to the chunks and quotes behind it
+  let claims: Claim[] = [];
+  let droppedCitations = 0;
+  if (config.synthesis.includeCitations) {
+    // Numbered exactly as in the synthesis prompt for the final answer
+    const context = finalContext.map((d) => ({
+      text: d.text,
+      metadata: sources[d.index],
+    }));
+    ({ claims, droppedCitations } = await runStage(
+      "citations",
+      () => extractClaims(query, finalAnswer, context, config.llm, usage),
+      { claims: [], droppedCitations: 0 }
+    ));
   }
 
   return {
     query,
     expandedQueries,
     documents,
+    sources,
     rerankedDocuments,
     finalAnswer,
-    critiqueScore: critique.score,
-    confidence,
+    claims,
+    droppedCitations,
+    critiqueScore: attempts[0]?.score ?? null,
+    confidence:
+      attempts.length > 0 ? Math.max(...attempts.map((a) => a.score)) : null,
+    attempts,
+    degraded,
+    prompts: promptRef,
   };
 }
@@ -0,0 +1,150 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import path from "node:path";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "../utils/json-file.ts";
+
+const KEYS_PATH = path.join(DATA_DIR, "api-keys.json");
+
+export const API_KEY_ROLES = ["read", "ingest", "admin"] as const;
+export type ApiKeyRole = (typeof API_KEY_ROLES)[number];
+
+/** Namespace entry granting access to every namespace */
+export const ALL_NAMESPACES = "*";
+
+export interface RateLimit {
+  requestsPerMinute: number;
+  /** Estimated LLM tokens across a minute of answered queries */
+  tokensPerMinute: number;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** First characters of the secret, to tell keys apart in listings */
+  prefix: string;
+  /** `admin` implies the other roles */
+  roles: ApiKeyRole[];
+  namespaces: string[];
+  /** Config profile for queries that do not name one */
+  profile?: string;
+  /** Unset fields use the `RATE_LIMIT_*` defaults */
+  rateLimit?: Partial<RateLimit>;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+interface StoredApiKey extends ApiKey {
+  /** sha256 of the secret; the secret itself is only shown once */
+  keyHash: string;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimit = {
+  requestsPerMinute: Number(process.env.RATE_LIMIT_REQUESTS_PER_MINUTE || 60),
+  tokensPerMinute: Number(process.env.RATE_LIMIT_TOKENS_PER_MINUTE || 100000),
+};
+
+// Accepted alongside stored keys so the first admin can issue the others
+const BOOTSTRAP_KEY: StoredApiKey | undefined = process.env.ADMIN_API_KEY
+  ? {
+      id: "bootstrap",
+      name: "ADMIN_API_KEY",
+      prefix: process.env.ADMIN_API_KEY.slice(0, 8),
+      roles: ["admin"],
+      namespaces: [ALL_NAMESPACES],
+      createdAt: new Date(0).toISOString(),
+      revokedAt: null,
+      keyHash: hashKey(process.env.ADMIN_API_KEY),
+    }
+  : undefined;
+
+let keys: StoredApiKey[] | null = null;
+
+function hashKey(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+async function load(): Promise<StoredApiKey[]> {
+  if (!keys) {
+    keys = await readJsonFile<StoredApiKey[]>(KEYS_PATH, []);
+  }
+  return keys;
+}
+
+function persist(): Promise<void> {
+  return writeJsonFile(KEYS_PATH, structuredClone(keys));
+}
+
+function toApiKey({ keyHash: _keyHash, ...key }: StoredApiKey): ApiKey {
+  return key;
+}
+
+export function hasRole(key: ApiKey, role: ApiKeyRole): boolean {
+  return key.roles.includes("admin") || key.roles.includes(role);
+}
+
+export function canAccessNamespace(key: ApiKey, namespace: string): boolean {
+  return (
+    key.namespaces.includes(ALL_NAMESPACES) ||
+    key.namespaces.includes(namespace)
+  );
+}
+
+export function rateLimitOf(key: ApiKey): RateLimit {
+  return { ...DEFAULT_RATE_LIMIT, ...key.rateLimit };
+}
+
+/**
+ * The active key matching a secret, or undefined for unknown and revoked
+ * keys.
+ */
+export async function findApiKey(secret: string): Promise<ApiKey | undefined> {
+  const keyHash = hashKey(secret);
+  if (BOOTSTRAP_KEY?.keyHash === keyHash) return toApiKey(BOOTSTRAP_KEY);
+
+  const key = (await load()).find((k) => k.keyHash === keyHash);
+  return key && !key.revokedAt ? toApiKey(key) : undefined;
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  return (await load()).map(toApiKey);
+}
+
+/**
+ * Issue a key. The returned secret is not stored and cannot be recovered.
+ */
+export async function createApiKey(
+  input: Pick<ApiKey, "name" | "roles" | "namespaces" | "profile" | "rateLimit">
+): Promise<{ apiKey: ApiKey; secret: string }> {
+  const secret = `cg_${randomBytes(24).toString("base64url")}`;
+  const key: StoredApiKey = {
+    id: randomUUID(),
+    ...input,
+    prefix: secret.slice(0, 8),
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+    keyHash: hashKey(secret),
+  };
+
+  (await load()).push(key);
+  await persist();
+  return { apiKey: toApiKey(key), secret };
+}
+
+/**
+ * Revoke a key; it stays listed for auditing. Returns undefined for unknown
+ * keys.
+ */
+export async function revokeApiKey(id: string): Promise<ApiKey | undefined> {
+  const key = (await load()).find((k) => k.id === id);
+  if (!key) return undefined;
+
+  key.revokedAt ??= new Date().toISOString();
+  await persist();
+  return toApiKey(key);
+}
+
+/** Whether any key can authenticate, so startup can warn when none can */
+export async function hasApiKeys(): Promise<boolean> {
+  return (
+    BOOTSTRAP_KEY !== undefined || (await load()).some((k) => !k.revokedAt)
+  );
+}
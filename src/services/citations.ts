@@ -0,0 +1,150 @@
+import { AdvancedRAGConfig } from "../config/advanced-rag.config.js";
+import { completeJSON, UsageReport } from "../llm/index.ts";
+import { fieldsToMetadata } from "../vector-store/index.ts";
+
+export type QuoteMatch = "exact" | "fuzzy" | "none";
+
+export interface Citation extends ReturnType<typeof fieldsToMetadata> {
+  quote: string;
+  match: QuoteMatch;
+  /** False when the quoted span could not be found in the cited chunk */
+  verified: boolean;
+}
+
+export interface Claim {
+  text: string;
+  citations: Citation[];
+  /** True when at least one citation's quote was found in its chunk */
+  supported: boolean;
+}
+
+export interface ContextDocument {
+  text: string;
+  metadata: ReturnType<typeof fieldsToMetadata>;
+}
+
+function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function bigrams(text: string): string[] {
+  const words = text.split(/[^\p{L}\p{N}']+/u).filter(Boolean);
+  return words.slice(1).map((word, i) => `${words[i]} ${word}`);
+}
+
+/**
+ * Check a quoted span against the chunk it cites. Ellipses split a quote into
+ * fragments that must each appear. Near-verbatim quotes (minor OCR or
+ * punctuation differences) count as fuzzy matches.
+ */
+export function verifyQuote(quote: string, chunkText: string): QuoteMatch {
+  const haystack = normalizeForMatch(chunkText);
+  const fragments = normalizeForMatch(quote)
+    .replace(/^["']|["']$/g, "")
+    .split(/\s*(?:\.\.\.|…)\s*/)
+    .filter((fragment) => fragment.length > 0);
+  if (fragments.length === 0) return "none";
+
+  if (fragments.every((fragment) => haystack.includes(fragment))) {
+    return "exact";
+  }
+
+  const chunkBigrams = new Set(bigrams(haystack));
+  const quoteBigrams = fragments.flatMap(bigrams);
+  if (quoteBigrams.length === 0) return "none";
+
+  const found = quoteBigrams.filter((pair) => chunkBigrams.has(pair)).length;
+  return found / quoteBigrams.length >= 0.8 ? "fuzzy" : "none";
+}
+
+/**
+ * Break a synthesized answer into claims, each tied to the context documents
+ * and verbatim spans that support it. Citations of documents outside the
+ * context are dropped; quotes not found in the cited chunk are flagged.
+ */
+export async function extractClaims(
+  query: string,
+  answer: string,
+  context: ContextDocument[],
+  llmConfig?: AdvancedRAGConfig["llm"],
+  usage?: UsageReport
+): Promise<{ claims: Claim[]; droppedCitations: number }> {
+  const prompt = `Split the answer below into its individual factual claims. For each claim, cite the context documents that support it by number, with an exact verbatim quote (copied character for character) from that document.
+
+  Question: ${query}
+
+  Context (${context.length} documents):
+  ${context.map((doc, i) => `[${i + 1}] ${doc.text}`).join("\n\n")}
+
+  Answer:
+  ${answer}
+
+  Respond in this exact JSON format:
+  {
+    "claims": [
+      {
+        "text": "The claim, as stated in the answer",
+        "citations": [{ "document": 1, "quote": "exact words from document 1" }]
+      }
+    ]
+  }
+  Claims with no supporting document get an empty citations list.`;
+
+  const parsed = await completeJSON<{ claims?: unknown }>(
+    "citations",
+    {
+      messages: [
+        {
+          role: "system",
+          content:
+            "You attribute claims to sources for a scholarly citation checker. Respond only with valid JSON.",
+        },
+        { role: "user", content: prompt },
+      ],
+      temperature: 0,
+    },
+    llmConfig,
+    usage
+  );
+
+  const rawClaims: any[] = Array.isArray(parsed?.claims) ? parsed.claims : [];
+
+  let droppedCitations = 0;
+  const claims = rawClaims
+    .filter((claim) => typeof claim?.text === "string" && claim.text.trim())
+    .map((claim): Claim => {
+      const citations: Citation[] = [];
+      for (const citation of Array.isArray(claim.citations)
+        ? claim.citations
+        : []) {
+        const doc = context[Number(citation?.document) - 1];
+        if (!doc) {
+          droppedCitations++;
+          continue;
+        }
+
+        const quote = typeof citation.quote === "string" ? citation.quote : "";
+        const match = quote ? verifyQuote(quote, doc.text) : "none";
+        citations.push({
+          ...doc.metadata,
+          quote,
+          match,
+          verified: match !== "none",
+        });
+      }
+
+      return {
+        text: claim.text.trim(),
+        citations,
+        supported: citations.some((citation) => citation.verified),
+      };
+    });
+
+  return { claims, droppedCitations };
+}
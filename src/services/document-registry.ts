@@ -0,0 +1,121 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+import { ChunkStrategy } from "../utils/chunk.ts";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "../utils/json-file.ts";
+
+const REGISTRY_PATH = path.join(DATA_DIR, "documents.json");
+
+/**
+ * Metadata supplied by the uploader, stored on every chunk for filtering.
+ */
+export interface DocumentAttributes {
+  author?: string;
+  work?: string;
+  tags?: string[];
+  language?: string;
+  year?: number;
+}
+
+export interface DocumentRecord {
+  id: string;
+  filename: string;
+  hash: string;
+  namespace: string;
+  format?: string;
+  /** Metadata found in the file itself, such as an EPUB's title */
+  metadata?: Record<string, string | number>;
+  attributes?: DocumentAttributes;
+  /** Chunking the document was indexed with; absent for older records */
+  chunking?: {
+    chunkSize: number;
+    chunkOverlap: number;
+    chunkStrategy?: ChunkStrategy;
+  };
+  chunkCount: number;
+  uploadedAt: string;
+}
+
+let documents: DocumentRecord[] | null = null;
+
+async function load(): Promise<DocumentRecord[]> {
+  if (documents) return documents;
+  documents = await readJsonFile<DocumentRecord[]>(REGISTRY_PATH, []);
+  return documents;
+}
+
+function persist(): Promise<void> {
+  return writeJsonFile(REGISTRY_PATH, [...(documents ?? [])]);
+}
+
+export function hashContent(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+export function documentIdForHash(hash: string): string {
+  return hash.slice(0, 32);
+}
+
+export function chunkId(documentId: string, chunkIndex: number): string {
+  return `${documentId}#${chunkIndex}`;
+}
+
+export function chunkIdsFor(document: DocumentRecord): string[] {
+  return Array.from({ length: document.chunkCount }, (_, i) =>
+    chunkId(document.id, i)
+  );
+}
+
+export async function listDocuments(
+  namespace?: string
+): Promise<DocumentRecord[]> {
+  const all = await load();
+  return all.filter((doc) => !namespace || doc.namespace === namespace);
+}
+
+export async function getDocument(
+  id: string,
+  namespace: string
+): Promise<DocumentRecord | undefined> {
+  const all = await load();
+  return all.find((doc) => doc.id === id && doc.namespace === namespace);
+}
+
+export async function findDocumentsByFilename(
+  filename: string,
+  namespace: string
+): Promise<DocumentRecord[]> {
+  const all = await load();
+  return all.filter(
+    (doc) => doc.filename === filename && doc.namespace === namespace
+  );
+}
+
+/**
+ * Insert or replace the registry entry with the document's ID in its
+ * namespace.
+ */
+export async function saveDocument(document: DocumentRecord): Promise<void> {
+  const all = await load();
+  documents = all.filter(
+    (doc) => doc.namespace !== document.namespace || doc.id !== document.id
+  );
+  documents.push(document);
+  await persist();
+}
+
+export async function removeDocument(
+  id: string,
+  namespace: string
+): Promise<void> {
+  const all = await load();
+  documents = all.filter((doc) => doc.id !== id || doc.namespace !== namespace);
+  await persist();
+}
+
+export async function removeNamespaceDocuments(
+  namespace: string
+): Promise<void> {
+  const all = await load();
+  documents = all.filter((doc) => doc.namespace !== namespace);
+  await persist();
+}
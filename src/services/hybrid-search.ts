@@ -0,0 +1,115 @@
+import { cached, CacheReport } from "../cache/index.ts";
+import { AdvancedRAGConfig } from "../config/advanced-rag.config.js";
+import { getVectorStore, RecordFilter } from "../vector-store/index.ts";
+import { keywordSearch } from "./keyword-index.ts";
+
+export interface HybridHit {
+  _id: string;
+  _score: number;
+  fields: Record<string, any>;
+  vectorScore?: number;
+  keywordScore?: number;
+}
+
+function normalize(scores: number[]): number[] {
+  const max = Math.max(...scores);
+  const min = Math.min(...scores);
+  if (max === min) return scores.map(() => 1);
+  return scores.map((score) => (score - min) / (max - min));
+}
+
+/**
+ * Fuse ranked vector and keyword hits, either with weighted reciprocal rank
+ * fusion or with a weighted sum of min-max normalized scores.
+ */
+export function fuseHits(
+  vectorHits: Array<{ _id: string; _score: number; fields: object }>,
+  keywordHits: Array<{ id: string; score: number; fields: object }>,
+  config: AdvancedRAGConfig["hybridSearch"]
+): HybridHit[] {
+  const fused = new Map<string, HybridHit>();
+  const entry = (id: string, fields: object) => {
+    let hit = fused.get(id);
+    if (!hit) {
+      hit = { _id: id, _score: 0, fields: fields as Record<string, any> };
+      fused.set(id, hit);
+    }
+    return hit;
+  };
+
+  const vectorNormalized = normalize(vectorHits.map((hit) => hit._score));
+  vectorHits.forEach((hit, rank) => {
+    const fusedHit = entry(hit._id, hit.fields);
+    fusedHit.vectorScore = hit._score;
+    fusedHit._score += config.reciprocalRankFusion
+      ? config.vectorWeight / (config.rrfK + rank + 1)
+      : config.vectorWeight * vectorNormalized[rank];
+  });
+
+  const keywordNormalized = normalize(keywordHits.map((hit) => hit.score));
+  keywordHits.forEach((hit, rank) => {
+    const fusedHit = entry(hit.id, hit.fields);
+    fusedHit.keywordScore = hit.score;
+    fusedHit._score += config.reciprocalRankFusion
+      ? config.keywordWeight / (config.rrfK + rank + 1)
+      : config.keywordWeight * keywordNormalized[rank];
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b._score - a._score);
+}
+
+/**
+ * Dense vector store search, fused with the local BM25 index when
+ * `hybridSearch.enabled` is set. Both sides apply the same record filter.
+ * Results are cached per query, namespace and filter when caching is on.
+ */
+export function hybridSearch(
+  namespace: string,
+  query: string,
+  options: { topK: number; topN: number; filter?: RecordFilter },
+  config: AdvancedRAGConfig,
+  cacheReport?: CacheReport
+): Promise<HybridHit[]> {
+  return cached(
+    "search",
+    {
+      namespace,
+      key: [
+        query,
+        options,
+        config.hybridSearch,
+        config.reranking.usePineconeReranking,
+      ],
+    },
+    config,
+    cacheReport,
+    () => searchNamespace(namespace, query, options, config)
+  );
+}
+
+async function searchNamespace(
+  namespace: string,
+  query: string,
+  options: { topK: number; topN: number; filter?: RecordFilter },
+  config: AdvancedRAGConfig
+): Promise<HybridHit[]> {
+  const vectorOptions = {
+    ...options,
+    rerank: config.reranking.usePineconeReranking,
+  };
+
+  if (!config.hybridSearch.enabled) {
+    const hits = await getVectorStore().search(namespace, query, vectorOptions);
+    return hits.map((hit) => ({ ...hit, vectorScore: hit._score }));
+  }
+
+  const [vectorHits, keywordHits] = await Promise.all([
+    getVectorStore().search(namespace, query, vectorOptions),
+    keywordSearch(namespace, query, options.topK, options.filter),
+  ]);
+
+  return fuseHits(vectorHits, keywordHits, config.hybridSearch).slice(
+    0,
+    options.topN
+  );
+}
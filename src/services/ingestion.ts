@@ -0,0 +1,250 @@
+import { invalidateNamespace } from "../cache/index.ts";
+import {
+  ChunkLocation,
+  ExtractedDocument,
+  Extractor,
+  findExtractor,
+  locateChunk,
+} from "../extractors/index.ts";
+import {
+  chunkRecord,
+  getVectorStore,
+  upsertVectors,
+} from "../vector-store/index.ts";
+import {
+  ChunkStrategy,
+  chunkTextWithOffsets,
+  TextChunk,
+} from "../utils/chunk.ts";
+import {
+  chunkIdsFor,
+  DocumentAttributes,
+  documentIdForHash,
+  DocumentRecord,
+  findDocumentsByFilename,
+  getDocument,
+  hashContent,
+  removeDocument,
+  saveDocument,
+} from "./document-registry.ts";
+import {
+  addKeywordDocuments,
+  removeKeywordDocuments,
+} from "./keyword-index.ts";
+
+export interface ChunkingOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+  chunkStrategy?: ChunkStrategy;
+}
+
+export interface IngestionOptions extends ChunkingOptions {
+  namespace: string;
+  /** Replace other documents with the same file name in the namespace */
+  replaceByFilename?: boolean;
+}
+
+function sameAttributes(
+  a: DocumentAttributes = {},
+  b: DocumentAttributes = {}
+) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sameChunking(
+  stored: DocumentRecord["chunking"],
+  options: ChunkingOptions
+) {
+  return (
+    stored?.chunkSize === options.chunkSize &&
+    stored.chunkOverlap === options.chunkOverlap &&
+    stored.chunkStrategy === options.chunkStrategy
+  );
+}
+
+export type LocatedChunk = TextChunk & ChunkLocation;
+
+/**
+ * Extract and chunk a file without indexing anything. Shared by ingestion and
+ * the chunk preview endpoint so both always produce identical chunks.
+ */
+export async function extractAndChunk(
+  buffer: Buffer,
+  filename: string,
+  mimetype: string,
+  options: ChunkingOptions
+): Promise<{
+  extractor: Extractor;
+  extracted: ExtractedDocument;
+  chunks: LocatedChunk[];
+}> {
+  const extractor = findExtractor(mimetype, filename);
+  if (!extractor) {
+    throw new Error(`Unsupported file type: ${filename} (${mimetype})`);
+  }
+
+  const extracted = await extractor.extract(buffer, filename);
+  if (!extracted.text.trim()) return { extractor, extracted, chunks: [] };
+
+  const chunks = chunkTextWithOffsets(extracted.text, {
+    chunkSize: options.chunkSize,
+    chunkOverlap: options.chunkOverlap,
+    strategy: options.chunkStrategy,
+    boundaries: extracted.sections.map((section) => section.offset),
+  }).map((chunk) => ({
+    ...chunk,
+    ...locateChunk(extracted, chunk.start, chunk.end),
+  }));
+
+  return { extractor, extracted, chunks };
+}
+
+export interface IngestionProgress {
+  documentId?: string;
+  chunksProcessed: number;
+  chunksTotal: number;
+}
+
+export type IngestionOutcome =
+  | { status: "indexed"; document: DocumentRecord; replaced: string[] }
+  | { status: "unchanged"; document: DocumentRecord }
+  | { status: "empty" };
+
+/**
+ * Remove a document's chunks from both the vector and keyword indexes, and
+ * drop cached results that may include them.
+ */
+export async function removeDocumentChunks(
+  document: DocumentRecord
+): Promise<void> {
+  const ids = chunkIdsFor(document);
+  await getVectorStore().delete(document.namespace, { ids });
+  await removeKeywordDocuments(document.namespace, ids);
+  await invalidateNamespace(document.namespace);
+}
+
+/**
+ * Extract, chunk and index a single file into its namespace.
+ * Chunk IDs are deterministic, so a run can resume from
+ * `progress.chunksProcessed` after an interruption without duplicating records.
+ * Re-uploading identical content with different attributes or chunking
+ * re-indexes it.
+ */
+export async function ingestFile(
+  buffer: Buffer,
+  filename: string,
+  mimetype: string,
+  options: IngestionOptions & { attributes?: DocumentAttributes },
+  progress: IngestionProgress,
+  onProgress: (progress: IngestionProgress) => void | Promise<void>
+): Promise<IngestionOutcome> {
+  const { namespace, attributes } = options;
+
+  const hash = hashContent(buffer);
+  const documentId = documentIdForHash(hash);
+
+  const existing = await getDocument(documentId, namespace);
+  if (
+    existing &&
+    sameAttributes(existing.attributes, attributes) &&
+    sameChunking(existing.chunking, options)
+  ) {
+    return { status: "unchanged", document: existing };
+  }
+
+  const { extractor, extracted, chunks } = await extractAndChunk(
+    buffer,
+    filename,
+    mimetype,
+    options
+  );
+  if (chunks.length === 0) return { status: "empty" };
+
+  const resumeFrom =
+    progress.documentId === documentId ? progress.chunksProcessed : 0;
+  const current: IngestionProgress = {
+    documentId,
+    chunksProcessed: resumeFrom,
+    chunksTotal: chunks.length,
+  };
+  await onProgress(current);
+
+  const uploadedAt = new Date();
+  const metadata = chunks.map((chunk, i) => ({
+    source: filename,
+    chunkIndex: i,
+    documentId,
+    pageStart: chunk.pageStart,
+    pageEnd: chunk.pageEnd,
+    sectionPath: chunk.sectionPath,
+    ...attributes,
+    uploadedAt: uploadedAt.getTime(),
+  }));
+
+  const remaining = chunks.slice(resumeFrom);
+  if (remaining.length > 0) {
+    const texts = remaining.map((chunk) => chunk.text);
+    await upsertVectors(
+      texts,
+      metadata.slice(resumeFrom),
+      namespace,
+      async (upserted) => {
+        current.chunksProcessed = resumeFrom + upserted;
+        await onProgress(current);
+      }
+    );
+  }
+
+  // The keyword index is rebuilt for the whole document, since it is cheap
+  // and resumed runs only upsert the remaining chunks
+  await addKeywordDocuments(
+    namespace,
+    chunks.map((chunk, i) => {
+      const { id, ...fields } = chunkRecord(chunk.text, metadata[i]);
+      return { id, text: chunk.text, fields };
+    })
+  );
+
+  // Re-indexing with new options may yield fewer chunks than before
+  if (existing && existing.chunkCount > chunks.length) {
+    const stale = chunkIdsFor(existing).slice(chunks.length);
+    await getVectorStore().delete(namespace, { ids: stale });
+    await removeKeywordDocuments(namespace, stale);
+  }
+
+  // Only drop superseded chunks once their replacements are indexed
+  const previous = options.replaceByFilename
+    ? (await findDocumentsByFilename(filename, namespace)).filter(
+        (doc) => doc.id !== documentId
+      )
+    : [];
+  for (const doc of previous) {
+    await removeDocumentChunks(doc);
+    await removeDocument(doc.id, namespace);
+  }
+
+  const document: DocumentRecord = {
+    id: documentId,
+    filename,
+    hash,
+    namespace,
+    format: extractor.name,
+    metadata: extracted.metadata,
+    attributes,
+    chunking: {
+      chunkSize: options.chunkSize,
+      chunkOverlap: options.chunkOverlap,
+      chunkStrategy: options.chunkStrategy,
+    },
+    chunkCount: chunks.length,
+    uploadedAt: uploadedAt.toISOString(),
+  };
+  await saveDocument(document);
+  await invalidateNamespace(namespace);
+
+  return {
+    status: "indexed",
+    document,
+    replaced: previous.map((doc) => doc.id),
+  };
+}
@@ -0,0 +1,216 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "../utils/json-file.ts";
+import { logger } from "../utils/logger.ts";
+import { DocumentAttributes } from "./document-registry.ts";
+import { ingestFile, IngestionOptions } from "./ingestion.ts";
+
+const JOBS_DIR = path.join(DATA_DIR, "jobs");
+const UPLOADS_DIR = path.join(DATA_DIR, "uploads");
+const INGESTION_CONCURRENCY = Number(process.env.INGESTION_CONCURRENCY || 2);
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export type JobFileStatus =
+  "pending" | "processing" | "completed" | "unchanged" | "empty" | "failed";
+
+export interface JobFile {
+  filename: string;
+  mimetype: string;
+  size: number;
+  attributes?: DocumentAttributes;
+  status: JobFileStatus;
+  documentId?: string;
+  replacedDocumentIds?: string[];
+  chunksProcessed: number;
+  chunksTotal: number;
+  error?: string;
+}
+
+export interface IngestionJob {
+  id: string;
+  status: JobStatus;
+  options: IngestionOptions;
+  files: JobFile[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const jobs = new Map<string, IngestionJob>();
+const pending: string[] = [];
+let active = 0;
+
+function jobPath(id: string): string {
+  return path.join(JOBS_DIR, `${id}.json`);
+}
+
+function uploadPath(jobId: string, fileIndex: number): string {
+  return path.join(UPLOADS_DIR, jobId, String(fileIndex));
+}
+
+async function saveJob(job: IngestionJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  await writeJsonFile(jobPath(job.id), job);
+}
+
+function enqueue(jobId: string) {
+  pending.push(jobId);
+  drain();
+}
+
+function drain() {
+  while (active < INGESTION_CONCURRENCY && pending.length > 0) {
+    const jobId = pending.shift()!;
+    const job = jobs.get(jobId);
+    if (!job) continue;
+
+    active++;
+    runJob(job)
+      .catch((error) => logger.error("Ingestion job crashed", { jobId, error }))
+      .finally(() => {
+        active--;
+        drain();
+      });
+  }
+}
+
+async function runJob(job: IngestionJob): Promise<void> {
+  job.status = "running";
+  await saveJob(job);
+
+  // Files run sequentially so duplicates within one job dedupe via the registry
+  for (let i = 0; i < job.files.length; i++) {
+    const file = job.files[i];
+    if (file.status !== "pending" && file.status !== "processing") continue;
+
+    file.status = "processing";
+    file.error = undefined;
+    await saveJob(job);
+
+    try {
+      const buffer = await readFile(uploadPath(job.id, i));
+      const outcome = await ingestFile(
+        buffer,
+        file.filename,
+        file.mimetype,
+        { ...job.options, attributes: file.attributes },
+        file,
+        async (progress) => {
+          Object.assign(file, progress);
+          await saveJob(job);
+        }
+      );
+
+      if (outcome.status === "empty") {
+        file.status = "empty";
+      } else {
+        file.status =
+          outcome.status === "indexed" ? "completed" : outcome.status;
+        file.documentId = outcome.document.id;
+        file.chunksTotal = outcome.document.chunkCount;
+        file.chunksProcessed = outcome.document.chunkCount;
+        if (outcome.status === "indexed") {
+          file.replacedDocumentIds = outcome.replaced;
+        }
+      }
+    } catch (error) {
+      logger.error("Error ingesting file", {
+        jobId: job.id,
+        filename: file.filename,
+        error,
+      });
+      file.status = "failed";
+      file.error = error instanceof Error ? error.message : String(error);
+    }
+    await saveJob(job);
+  }
+
+  job.status = job.files.some((file) => file.status === "failed")
+    ? "failed"
+    : "completed";
+  await saveJob(job);
+
+  await rm(path.join(UPLOADS_DIR, job.id), { recursive: true, force: true });
+}
+
+/**
+ * Persist uploaded files to disk and queue them for background ingestion.
+ * Files are kept until the job finishes so it can resume after a restart.
+ * `attributes` holds per-file user metadata, in the same order as `files`.
+ */
+export async function createIngestionJob(
+  files: Express.Multer.File[],
+  options: IngestionOptions,
+  attributes: Array<DocumentAttributes | undefined> = []
+): Promise<IngestionJob> {
+  const now = new Date().toISOString();
+  const job: IngestionJob = {
+    id: randomUUID(),
+    status: "queued",
+    options,
+    files: files.map((file, i) => ({
+      filename: file.originalname,
+      mimetype: file.mimetype,
+      size: file.size,
+      attributes: attributes[i],
+      status: "pending",
+      chunksProcessed: 0,
+      chunksTotal: 0,
+    })),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await mkdir(path.join(UPLOADS_DIR, job.id), { recursive: true });
+  for (let i = 0; i < files.length; i++) {
+    await writeFile(uploadPath(job.id, i), files[i].buffer);
+  }
+
+  jobs.set(job.id, job);
+  await saveJob(job);
+  enqueue(job.id);
+
+  return job;
+}
+
+export async function getJob(id: string): Promise<IngestionJob | undefined> {
+  const cached = jobs.get(id);
+  if (cached) return cached;
+
+  // Job IDs are UUIDs; reject anything else before touching the filesystem
+  if (!/^[0-9a-f-]{36}$/i.test(id)) return undefined;
+  return readJsonFile<IngestionJob | undefined>(jobPath(id), undefined);
+}
+
+/**
+ * Re-queue any jobs that were queued or running when the server last stopped.
+ */
+export async function resumeIngestionJobs(): Promise<number> {
+  let entries: string[];
+  try {
+    entries = await readdir(JOBS_DIR);
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return 0;
+    throw error;
+  }
+
+  let resumed = 0;
+  for (const entry of entries) {
+    if (!entry.endsWith(".json")) continue;
+
+    const job = await readJsonFile<IngestionJob | undefined>(
+      path.join(JOBS_DIR, entry),
+      undefined
+    );
+    if (!job || (job.status !== "queued" && job.status !== "running")) {
+      continue;
+    }
+
+    jobs.set(job.id, job);
+    enqueue(job.id);
+    resumed++;
+  }
+
+  return resumed;
+}
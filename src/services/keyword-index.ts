@@ -0,0 +1,227 @@
+import path from "node:path";
+import { rm } from "node:fs/promises";
+import {
+  DATA_DIR,
+  readJsonFile,
+  withFileLock,
+  writeJsonFile,
+} from "../utils/json-file.ts";
+import { matchesFilter } from "../vector-store/filter.ts";
+import { RecordFilter } from "../vector-store/types.ts";
+
+const KEYWORD_DIR = path.join(DATA_DIR, "keyword-index");
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "he",
+  "his",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "what",
+  "which",
+  "with",
+]);
+
+export interface KeywordDocument {
+  id: string;
+  text: string;
+  fields: Record<string, unknown>;
+}
+
+export interface KeywordHit {
+  id: string;
+  score: number;
+  fields: Record<string, unknown>;
+}
+
+interface StoredDocument {
+  fields: Record<string, unknown>;
+  length: number;
+  terms: Record<string, number>;
+}
+
+interface NamespaceIndex {
+  documents: Map<string, StoredDocument>;
+  postings: Map<string, Map<string, number>>;
+  totalLength: number;
+}
+
+const indexes = new Map<string, NamespaceIndex>();
+
+/**
+ * Lowercased, accent-folded word tokens, so "Actus Purus" and "actus purus"
+ * (or "quinque viæ" and "quinque viae") match.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/æ/gi, "ae")
+    .replace(/œ/gi, "oe")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function indexPath(namespace: string): string {
+  return path.join(KEYWORD_DIR, `${encodeURIComponent(namespace)}.json`);
+}
+
+function addPostings(index: NamespaceIndex, id: string, doc: StoredDocument) {
+  index.documents.set(id, doc);
+  index.totalLength += doc.length;
+  for (const [term, tf] of Object.entries(doc.terms)) {
+    let posting = index.postings.get(term);
+    if (!posting) {
+      posting = new Map();
+      index.postings.set(term, posting);
+    }
+    posting.set(id, tf);
+  }
+}
+
+function removePostings(index: NamespaceIndex, id: string) {
+  const doc = index.documents.get(id);
+  if (!doc) return;
+
+  index.documents.delete(id);
+  index.totalLength -= doc.length;
+  for (const term of Object.keys(doc.terms)) {
+    const posting = index.postings.get(term);
+    posting?.delete(id);
+    if (posting?.size === 0) index.postings.delete(term);
+  }
+}
+
+async function load(namespace: string): Promise<NamespaceIndex> {
+  const cached = indexes.get(namespace);
+  if (cached) return cached;
+
+  const stored = await readJsonFile<Record<string, StoredDocument>>(
+    indexPath(namespace),
+    {}
+  );
+  const index: NamespaceIndex = {
+    documents: new Map(),
+    postings: new Map(),
+    totalLength: 0,
+  };
+  for (const [id, doc] of Object.entries(stored)) {
+    addPostings(index, id, doc);
+  }
+
+  indexes.set(namespace, index);
+  return index;
+}
+
+function persist(namespace: string, index: NamespaceIndex): Promise<void> {
+  return writeJsonFile(
+    indexPath(namespace),
+    Object.fromEntries(index.documents)
+  );
+}
+
+export async function addKeywordDocuments(
+  namespace: string,
+  documents: KeywordDocument[]
+): Promise<void> {
+  const index = await load(namespace);
+
+  for (const document of documents) {
+    const terms: Record<string, number> = {};
+    const tokens = tokenize(document.text);
+    for (const token of tokens) {
+      terms[token] = (terms[token] ?? 0) + 1;
+    }
+
+    removePostings(index, document.id);
+    addPostings(index, document.id, {
+      fields: document.fields,
+      length: tokens.length,
+      terms,
+    });
+  }
+
+  await persist(namespace, index);
+}
+
+export async function removeKeywordDocuments(
+  namespace: string,
+  ids: string[]
+): Promise<void> {
+  const index = await load(namespace);
+  for (const id of ids) removePostings(index, id);
+  await persist(namespace, index);
+}
+
+export async function dropKeywordIndex(namespace: string): Promise<void> {
+  indexes.delete(namespace);
+  // Queued after pending writes, so none of them recreates the file
+  await withFileLock(indexPath(namespace), () =>
+    rm(indexPath(namespace), { force: true })
+  );
+}
+
+/**
+ * BM25 search, restricted to chunks whose stored fields match `filter`.
+ */
+export async function keywordSearch(
+  namespace: string,
+  query: string,
+  topK: number,
+  filter?: RecordFilter
+): Promise<KeywordHit[]> {
+  const index = await load(namespace);
+  const total = index.documents.size;
+  if (total === 0) return [];
+
+  const averageLength = index.totalLength / total || 1;
+  const scores = new Map<string, number>();
+
+  for (const term of new Set(tokenize(query))) {
+    const posting = index.postings.get(term);
+    if (!posting) continue;
+
+    const idf = Math.log(
+      1 + (total - posting.size + 0.5) / (posting.size + 0.5)
+    );
+    for (const [id, tf] of posting) {
+      const length = index.documents.get(id)!.length;
+      const score =
+        (idf * tf * (K1 + 1)) /
+        (tf + K1 * (1 - B + (B * length) / averageLength));
+      scores.set(id, (scores.get(id) ?? 0) + score);
+    }
+  }
+
+  return Array.from(scores, ([id, score]) => ({
+    id,
+    score,
+    fields: index.documents.get(id)!.fields,
+  }))
+    .filter((hit) => !filter || matchesFilter(hit.fields, filter))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
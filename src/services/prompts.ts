@@ -0,0 +1,300 @@
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import { AdvancedRAGConfig } from "../config/advanced-rag.config.js";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "../utils/json-file.ts";
+
+const REGISTRY_PATH = path.join(DATA_DIR, "prompts.json");
+
+// Prompt sets shipped with the service, one `<name>.json` file per set
+const SHIPPED_DIR =
+  process.env.PROMPTS_DIR ||
+  fileURLToPath(new URL("../config/prompts/", import.meta.url));
+
+export const DEFAULT_PROMPT_SET = "default";
+
+export const PROMPT_SET_NAME = /^[a-z0-9][a-z0-9-]*$/;
+
+/** The `{{variables}}` each template may use */
+const TEMPLATE_VARIABLES = {
+  expansion: ["query", "numQueries"],
+  synthesis: ["query", "context", "documentCount"],
+  critique: ["query", "response", "context"],
+  noAnswer: ["query"],
+} as const;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+function templateSchema(variables: readonly string[]) {
+  return z
+    .string()
+    .min(1)
+    .max(20000)
+    .superRefine((template, ctx) => {
+      for (const [, name] of template.matchAll(VARIABLE_PATTERN)) {
+        if (!variables.includes(name)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Unknown variable {{${name}}}; use ${variables.map((v) => `{{${v}}}`).join(", ")}`,
+          });
+        }
+      }
+    });
+}
+
+function messagesSchema(variables: readonly string[]) {
+  return z
+    .object({
+      system: templateSchema(variables),
+      user: templateSchema(variables),
+    })
+    .strict();
+}
+
+/**
+ * Templates for one domain. The pipeline appends its own instructions where
+ * it depends on the output, such as citation markers and the critique's
+ * JSON format.
+ */
+export const PromptTemplatesSchema = z
+  .object({
+    expansion: messagesSchema(TEMPLATE_VARIABLES.expansion),
+    synthesis: messagesSchema(TEMPLATE_VARIABLES.synthesis),
+    critique: messagesSchema(TEMPLATE_VARIABLES.critique),
+    noAnswer: templateSchema(TEMPLATE_VARIABLES.noAnswer),
+  })
+  .strict();
+
+export type PromptTemplates = z.infer<typeof PromptTemplatesSchema>;
+
+export interface PromptVersion {
+  /** Hash of the templates, so identical content keeps its ID */
+  id: string;
+  /** Null for the version shipped with the service */
+  createdAt: string | null;
+  templates: PromptTemplates;
+}
+
+export interface PromptSet {
+  name: string;
+  /** ID of the version in use */
+  current: string;
+  /** Oldest first; a shipped version comes first */
+  versions: PromptVersion[];
+  /** Namespaces answered with this set unless a config picks another */
+  namespaces: string[];
+}
+
+/** The prompts an answer was generated with, recorded for auditing */
+export interface PromptRef {
+  set: string;
+  version: string;
+}
+
+export interface ResolvedPrompts extends PromptRef {
+  templates: PromptTemplates;
+}
+
+interface PromptRegistry {
+  sets: Record<string, { current: string; versions: PromptVersion[] }>;
+  /** Namespace to prompt set name */
+  namespaces: Record<string, string>;
+}
+
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string | number>
+): string {
+  return template.replace(VARIABLE_PATTERN, (match, name) =>
+    name in variables ? String(variables[name]) : match
+  );
+}
+
+export function promptVersionId(templates: PromptTemplates): string {
+  return createHash("sha256")
+    .update(JSON.stringify(templates))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+let shipped: Map<string, PromptVersion> | null = null;
+
+function shippedSets(): Map<string, PromptVersion> {
+  if (!shipped) {
+    shipped = new Map();
+    for (const file of readdirSync(SHIPPED_DIR)) {
+      if (!file.endsWith(".json")) continue;
+      const name = path.basename(file, ".json");
+      const parsed = PromptTemplatesSchema.safeParse(
+        JSON.parse(readFileSync(path.join(SHIPPED_DIR, file), "utf8"))
+      );
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid prompt templates in ${file}: ${parsed.error.message}`
+        );
+      }
+      shipped.set(name, {
+        id: promptVersionId(parsed.data),
+        createdAt: null,
+        templates: parsed.data,
+      });
+    }
+    if (!shipped.has(DEFAULT_PROMPT_SET)) {
+      throw new Error(
+        `Missing ${DEFAULT_PROMPT_SET}.json prompt set in ${SHIPPED_DIR}`
+      );
+    }
+  }
+  return shipped;
+}
+
+/**
+ * The shipped default templates, for callers outside a request such as the
+ * eval harness's faithfulness judge.
+ */
+export function defaultPromptTemplates(): PromptTemplates {
+  return shippedSets().get(DEFAULT_PROMPT_SET)!.templates;
+}
+
+let registry: PromptRegistry | null = null;
+
+async function load(): Promise<PromptRegistry> {
+  if (registry) return registry;
+  registry = await readJsonFile<PromptRegistry>(REGISTRY_PATH, {
+    sets: {},
+    namespaces: {},
+  });
+  return registry;
+}
+
+function persist(): Promise<void> {
+  return writeJsonFile(REGISTRY_PATH, structuredClone(registry));
+}
+
+function toPromptSet(
+  name: string,
+  data: PromptRegistry
+): PromptSet | undefined {
+  const base = shippedSets().get(name);
+  const stored = data.sets[name];
+  if (!base && !stored) return undefined;
+
+  // A current ID missing from the versions was an earlier shipped version;
+  // the service has since shipped a new one
+  const versions = [...(base ? [base] : []), ...(stored?.versions ?? [])];
+  const current = versions.some((version) => version.id === stored?.current)
+    ? stored!.current
+    : versions[0].id;
+
+  return {
+    name,
+    current,
+    versions,
+    namespaces: Object.keys(data.namespaces)
+      .filter((namespace) => data.namespaces[namespace] === name)
+      .sort(),
+  };
+}
+
+export async function listPromptSets(): Promise<PromptSet[]> {
+  const data = await load();
+  const names = new Set([...shippedSets().keys(), ...Object.keys(data.sets)]);
+  return [...names].sort().map((name) => toPromptSet(name, data)!);
+}
+
+export async function getPromptSet(
+  name: string
+): Promise<PromptSet | undefined> {
+  return toPromptSet(name, await load());
+}
+
+/**
+ * Make `templates` the current version of a set, creating the set if needed.
+ * Saving content identical to an earlier version reactivates that version.
+ */
+export async function savePromptTemplates(
+  name: string,
+  templates: PromptTemplates
+): Promise<PromptSet> {
+  const data = await load();
+  const id = promptVersionId(templates);
+  const existing = toPromptSet(name, data);
+
+  const stored = (data.sets[name] ??= {
+    current: id,
+    versions: [],
+  });
+  if (!existing?.versions.some((version) => version.id === id)) {
+    stored.versions.push({
+      id,
+      createdAt: new Date().toISOString(),
+      templates,
+    });
+  }
+  stored.current = id;
+
+  await persist();
+  return toPromptSet(name, data)!;
+}
+
+/**
+ * Roll a set back (or forward) to one of its versions. Returns undefined
+ * when the set or version does not exist.
+ */
+export async function activatePromptVersion(
+  name: string,
+  id: string
+): Promise<PromptSet | undefined> {
+  const data = await load();
+  const set = toPromptSet(name, data);
+  if (!set?.versions.some((version) => version.id === id)) return undefined;
+
+  data.sets[name] = {
+    current: id,
+    versions: data.sets[name]?.versions ?? [],
+  };
+  await persist();
+  return toPromptSet(name, data);
+}
+
+/**
+ * Bind exactly these namespaces to a set, moving any bound to another set.
+ */
+export async function bindPromptNamespaces(
+  name: string,
+  namespaces: string[]
+): Promise<PromptSet | undefined> {
+  const data = await load();
+  if (!toPromptSet(name, data)) return undefined;
+
+  for (const [namespace, set] of Object.entries(data.namespaces)) {
+    if (set === name) delete data.namespaces[namespace];
+  }
+  for (const namespace of namespaces) {
+    data.namespaces[namespace] = name;
+  }
+  await persist();
+  return toPromptSet(name, data);
+}
+
+/**
+ * The current templates for a query: the set named by `config.promptSet`,
+ * else the one bound to the namespace, else the default set.
+ */
+export async function resolvePrompts(
+  namespace: string,
+  config: AdvancedRAGConfig
+): Promise<ResolvedPrompts> {
+  const data = await load();
+  const name =
+    config.promptSet ?? data.namespaces[namespace] ?? DEFAULT_PROMPT_SET;
+  const set = toPromptSet(name, data);
+  if (!set) {
+    throw new Error(`Unknown prompt set: ${name}`);
+  }
+
+  const version = set.versions.find((v) => v.id === set.current)!;
+  return { set: name, version: version.id, templates: version.templates };
+}
@@ -0,0 +1,88 @@
+import { RateLimit } from "./api-keys.ts";
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Token bucket refilled continuously at `perMinute` per minute, up to a
+ * minute's worth. Charges after the fact can drive it below zero, which
+ * blocks until it refills.
+ */
+interface Bucket {
+  level: number;
+  updatedAt: number;
+}
+
+// Per API key; limits reset when the process restarts
+const requestBuckets = new Map<string, Bucket>();
+const tokenBuckets = new Map<string, Bucket>();
+
+function refill(
+  buckets: Map<string, Bucket>,
+  keyId: string,
+  perMinute: number,
+  now: number
+): Bucket {
+  const bucket = buckets.get(keyId) ?? { level: perMinute, updatedAt: now };
+  bucket.level = Math.min(
+    perMinute,
+    bucket.level + ((now - bucket.updatedAt) * perMinute) / WINDOW_MS
+  );
+  bucket.updatedAt = now;
+  buckets.set(keyId, bucket);
+  return bucket;
+}
+
+/** Seconds until the bucket holds `needed` again */
+function secondsUntil(bucket: Bucket, needed: number, perMinute: number) {
+  return Math.max(
+    1,
+    Math.ceil((((needed - bucket.level) / perMinute) * WINDOW_MS) / 1000)
+  );
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; limit: keyof RateLimit; retryAfterSeconds: number };
+
+/**
+ * Take one request from the key's allowance. Requests are refused while the
+ * key is out of tokens too.
+ */
+export function takeRequest(keyId: string, limits: RateLimit): RateLimitResult {
+  const now = Date.now();
+  const tokens = refill(tokenBuckets, keyId, limits.tokensPerMinute, now);
+  if (tokens.level <= 0) {
+    return {
+      allowed: false,
+      limit: "tokensPerMinute",
+      retryAfterSeconds: secondsUntil(tokens, 1, limits.tokensPerMinute),
+    };
+  }
+
+  const requests = refill(requestBuckets, keyId, limits.requestsPerMinute, now);
+  if (requests.level < 1) {
+    return {
+      allowed: false,
+      limit: "requestsPerMinute",
+      retryAfterSeconds: secondsUntil(requests, 1, limits.requestsPerMinute),
+    };
+  }
+  requests.level -= 1;
+  return { allowed: true };
+}
+
+/** Charge tokens a finished request used against the key's allowance */
+export function chargeTokens(
+  keyId: string,
+  limits: RateLimit,
+  tokens: number
+): void {
+  if (tokens <= 0) return;
+  const bucket = refill(
+    tokenBuckets,
+    keyId,
+    limits.tokensPerMinute,
+    Date.now()
+  );
+  bucket.level -= tokens;
+}
@@ -0,0 +1,170 @@
+import { AdvancedRAGConfig } from "../config/advanced-rag.config.js";
+import { completeJSON, UsageReport } from "../llm/index.ts";
+import { tokenize } from "./keyword-index.ts";
+import { rerankTexts } from "../vector-store/pinecone.ts";
+import { logger } from "../utils/logger.ts";
+
+export interface RerankResult {
+  /** Position of the document in the input array */
+  index: number;
+  /** Relevance in [0, 1], comparable across rerankers */
+  score: number;
+}
+
+export interface Reranker {
+  name: string;
+  rerank(
+    query: string,
+    documents: string[],
+    topN: number
+  ): Promise<RerankResult[]>;
+}
+
+function topResults(scores: number[], topN: number): RerankResult[] {
+  return scores
+    .map((score, index) => ({ index, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topN);
+}
+
+/**
+ * Pinecone's hosted cross-encoder, run once over the fused set from all
+ * expanded queries rather than per search.
+ */
+export const pineconeReranker: Reranker = {
+  name: "pinecone",
+  rerank: (query, documents, topN) => rerankTexts(query, documents, topN),
+};
+
+/**
+ * Offline scorer: share of query terms present in the document, with a small
+ * bonus for the terms appearing in the same order (phrases like "actus purus").
+ */
+export const lexicalReranker: Reranker = {
+  name: "lexical",
+  async rerank(query, documents, topN) {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) {
+      return documents.slice(0, topN).map((_, index) => ({ index, score: 0 }));
+    }
+
+    const scores = documents.map((doc) => {
+      const docTokens = tokenize(doc);
+      const docTerms = new Set(docTokens);
+      const matched = queryTerms.filter((term) => docTerms.has(term)).length;
+
+      let bigrams = 0;
+      const joined = ` ${docTokens.join(" ")} `;
+      for (let i = 0; i + 1 < queryTerms.length; i++) {
+        if (joined.includes(` ${queryTerms[i]} ${queryTerms[i + 1]} `)) {
+          bigrams++;
+        }
+      }
+
+      const coverage = matched / queryTerms.length;
+      const phrase =
+        queryTerms.length > 1 ? bigrams / (queryTerms.length - 1) : coverage;
+      return 0.8 * coverage + 0.2 * phrase;
+    });
+
+    return topResults(scores, topN);
+  },
+};
+
+function parseScore(value: unknown): number {
+  const score = Number(value);
+  if (!Number.isFinite(score)) return 0;
+  return Math.min(Math.max(score / 10, 0), 1);
+}
+
+const LLM_SYSTEM_PROMPT =
+  "You are a relevance judge for a retrieval system. Respond only with valid JSON.";
+
+/**
+ * LLM judge scoring relevance from 0 to 10, normalized to [0, 1]. Pointwise
+ * mode makes one call per document; listwise scores them all in one call.
+ */
+export function createLLMReranker(
+  mode: AdvancedRAGConfig["reranking"]["llmMode"],
+  llmConfig?: AdvancedRAGConfig["llm"],
+  usage?: UsageReport
+): Reranker {
+  return {
+    name: `llm-${mode}`,
+    async rerank(query, documents, topN) {
+      const judge = (prompt: string) =>
+        completeJSON<{ score?: unknown; scores?: unknown }>(
+          "rerank",
+          {
+            messages: [
+              { role: "system", content: LLM_SYSTEM_PROMPT },
+              { role: "user", content: prompt },
+            ],
+            temperature: 0,
+          },
+          llmConfig,
+          usage
+        );
+
+      if (mode === "pointwise") {
+        const scores = await Promise.all(
+          documents.map(async (doc) => {
+            try {
+              const parsed = await judge(
+                `Rate how well the passage answers the query, from 0 (irrelevant) to 10 (fully answers it).
+
+Query: "${query}"
+
+Passage:
+${doc}
+
+Respond as {"score": <0-10>}`
+              );
+              return parseScore(parsed?.score);
+            } catch (error) {
+              logger.warn("Error scoring passage for rerank", { error });
+              return 0;
+            }
+          })
+        );
+        return topResults(scores, topN);
+      }
+
+      const parsed = await judge(
+        `Rate how well each passage answers the query, from 0 (irrelevant) to 10 (fully answers it).
+
+Query: "${query}"
+
+Passages:
+${documents.map((doc, i) => `[${i + 1}] ${doc}`).join("\n\n")}
+
+Respond as {"scores": [{"passage": <number>, "score": <0-10>}, ...]} covering every passage.`
+      );
+
+      const scores = documents.map(() => 0);
+      for (const entry of Array.isArray(parsed?.scores) ? parsed.scores : []) {
+        const index = Number(entry?.passage) - 1;
+        if (index >= 0 && index < scores.length) {
+          scores[index] = parseScore(entry.score);
+        }
+      }
+      return topResults(scores, topN);
+    },
+  };
+}
+
+export function getReranker(
+  config: AdvancedRAGConfig["reranking"],
+  llmConfig?: AdvancedRAGConfig["llm"],
+  usage?: UsageReport
+): Reranker {
+  switch (config.provider) {
+    case "llm":
+      return createLLMReranker(config.llmMode, llmConfig, usage);
+    case "lexical":
+      return lexicalReranker;
+    case "pinecone":
+    default:
+      return pineconeReranker;
+  }
+}
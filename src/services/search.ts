@@ -0,0 +1,57 @@
+import { CacheReport } from "../cache/index.ts";
+import {
+  AdvancedRAGConfig,
+  getAdvancedRAGConfig,
+} from "../config/advanced-rag.config.js";
+import { fieldsToMetadata, RecordFilter } from "../vector-store/index.ts";
+import { hybridSearch } from "./hybrid-search.ts";
+
+function parseMetadata(metadata: Record<string, any> | undefined) {
+  if (!metadata) {
+    return {
+      source: "unknown",
+      chunkIndex: 0,
+    };
+  }
+
+  return {
+    ...metadata,
+    source: metadata.source || "unknown",
+    chunkIndex: metadata.chunkIndex || 0,
+    documentId: metadata.documentId,
+    pageStart: metadata.pageStart,
+    pageEnd: metadata.pageEnd,
+    sectionPath: metadata.sectionPath || [],
+  };
+}
+
+export async function searchMatches(
+  namespace: string,
+  query: string,
+  options: { topK: number; topN: number; filter?: RecordFilter },
+  config: AdvancedRAGConfig = getAdvancedRAGConfig(),
+  cacheReport?: CacheReport
+) {
+  const matches = await hybridSearch(
+    namespace,
+    query,
+    options,
+    config,
+    cacheReport
+  );
+
+  return matches.map((match) => ({
+    ...match,
+    metadata: parseMetadata(fieldsToMetadata(match.fields)),
+    fields: match.fields || {},
+  }));
+}
+
+/**
+ * Candidate counts for `/query/advanced`, with a wider net than `/query` for
+ * better reranking. Shared with the eval harness so it measures the same thing.
+ */
+export function advancedSearchOptions(topK: number) {
+  const searchTopK = Math.max(topK * 3, 15);
+  return { topK: searchTopK, topN: Math.min(searchTopK, 15) };
+}
@@ -0,0 +1,110 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { Claim } from "./citations.ts";
+import { PromptRef } from "./prompts.ts";
+import { DATA_DIR, readJsonFile, writeJsonFile } from "../utils/json-file.ts";
+
+const SESSIONS_DIR = path.join(DATA_DIR, "sessions");
+const SESSION_STORE = process.env.SESSION_STORE || "memory";
+
+export interface SessionSource {
+  source: string;
+  chunkIndex: number;
+  documentId?: string;
+  pageStart?: number;
+  pageEnd?: number;
+  sectionPath?: string[];
+}
+
+export interface SessionTurn {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+  /** For user turns: the follow-up rewritten as a standalone question */
+  standaloneQuery?: string;
+  /** For assistant turns: the sources the answer was grounded in */
+  sources?: SessionSource[];
+  claims?: Claim[];
+  critiqueScore?: number;
+  confidence?: number;
+  prompts?: PromptRef;
+}
+
+export interface Session {
+  id: string;
+  namespace: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: SessionTurn[];
+}
+
+interface SessionStore {
+  get(id: string): Promise<Session | undefined>;
+  save(session: Session): Promise<void>;
+}
+
+function createMemoryStore(): SessionStore {
+  const sessions = new Map<string, Session>();
+  return {
+    async get(id) {
+      return sessions.get(id);
+    },
+    async save(session) {
+      sessions.set(session.id, session);
+    },
+  };
+}
+
+function createFileStore(): SessionStore {
+  const cache = new Map<string, Session>();
+  const sessionPath = (id: string) => path.join(SESSIONS_DIR, `${id}.json`);
+
+  return {
+    async get(id) {
+      const cached = cache.get(id);
+      if (cached) return cached;
+
+      // Session IDs are UUIDs; reject anything else before touching the disk
+      if (!/^[0-9a-f-]{36}$/i.test(id)) return undefined;
+      const session = await readJsonFile<Session | undefined>(
+        sessionPath(id),
+        undefined
+      );
+      if (session) cache.set(id, session);
+      return session;
+    },
+    async save(session) {
+      cache.set(session.id, session);
+      await writeJsonFile(sessionPath(session.id), session);
+    },
+  };
+}
+
+const store: SessionStore =
+  SESSION_STORE === "file" ? createFileStore() : createMemoryStore();
+
+export async function createSession(namespace: string): Promise<Session> {
+  const now = new Date().toISOString();
+  const session: Session = {
+    id: randomUUID(),
+    namespace,
+    createdAt: now,
+    updatedAt: now,
+    turns: [],
+  };
+  await store.save(session);
+  return session;
+}
+
+export function getSession(id: string): Promise<Session | undefined> {
+  return store.get(id);
+}
+
+export async function appendTurns(
+  session: Session,
+  ...turns: SessionTurn[]
+): Promise<void> {
+  session.turns.push(...turns);
+  session.updatedAt = new Date().toISOString();
+  await store.save(session);
+}
@@ -0,0 +1,244 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { UsageSummary } from "../llm/index.ts";
+import {
+  DATA_DIR,
+  readJsonFile,
+  withFileLock,
+  writeJsonFile,
+} from "../utils/json-file.ts";
+
+const USAGE_DIR = path.join(DATA_DIR, "usage");
+const BUDGETS_PATH = path.join(DATA_DIR, "budgets.json");
+
+/** LLM usage of one request, appended to that month's log */
+export interface UsageRecord {
+  timestamp: string;
+  /** Null when AUTH_MODE is "none" */
+  apiKeyId: string | null;
+  namespace: string;
+  route: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  apiKeyId: string | null;
+  namespace: string;
+}
+
+export interface BudgetStatus {
+  namespace: string;
+  month: string;
+  monthlyBudgetUsd: number | null;
+  spentUsd: number;
+  exceeded: boolean;
+}
+
+// Month-to-date spend per namespace, built from the log on first use
+const monthSpend = new Map<string, Map<string, number>>();
+let budgets: Record<string, number> | null = null;
+
+function monthOf(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function logPath(month: string): string {
+  return path.join(USAGE_DIR, `${month}.jsonl`);
+}
+
+async function readMonth(month: string): Promise<UsageRecord[]> {
+  try {
+    const raw = await readFile(logPath(month), "utf8");
+    return raw
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as UsageRecord);
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") throw error;
+    return [];
+  }
+}
+
+async function spendFor(month: string): Promise<Map<string, number>> {
+  let spend = monthSpend.get(month);
+  if (!spend) {
+    spend = new Map();
+    for (const record of await readMonth(month)) {
+      spend.set(
+        record.namespace,
+        (spend.get(record.namespace) ?? 0) + record.costUsd
+      );
+    }
+    monthSpend.set(month, spend);
+  }
+  return spend;
+}
+
+/**
+ * Append a request's usage to the log. Requests that made no LLM calls,
+ * such as cached answers, are not logged.
+ */
+export async function recordUsage(
+  entry: Pick<UsageRecord, "apiKeyId" | "namespace" | "route">,
+  summary: UsageSummary
+): Promise<void> {
+  if (summary.calls.length === 0) return;
+
+  const now = new Date();
+  const record: UsageRecord = {
+    timestamp: now.toISOString(),
+    ...entry,
+    calls: summary.calls.length,
+    promptTokens: summary.promptTokens,
+    completionTokens: summary.completionTokens,
+    totalTokens: summary.totalTokens,
+    costUsd: summary.costUsd,
+  };
+
+  const month = monthOf(now);
+  const spend = await spendFor(month);
+  spend.set(
+    record.namespace,
+    (spend.get(record.namespace) ?? 0) + record.costUsd
+  );
+
+  // Serialize writes so concurrent appends never interleave
+  return withFileLock(logPath(month), async () => {
+    await mkdir(USAGE_DIR, { recursive: true });
+    await appendFile(logPath(month), JSON.stringify(record) + "\n");
+  });
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+  };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord) {
+  totals.requests++;
+  totals.calls += record.calls;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.costUsd += record.costUsd;
+}
+
+/**
+ * Usage between `from` (inclusive) and `to` (exclusive), in total and per
+ * API key and namespace.
+ */
+export async function aggregateUsage(options: {
+  from: Date;
+  to: Date;
+  apiKeyId?: string;
+  namespace?: string;
+}): Promise<{ totals: UsageTotals; groups: UsageGroup[] }> {
+  const { from, to } = options;
+  const totals = emptyTotals();
+  const groups = new Map<string, UsageGroup>();
+
+  const cursor = new Date(
+    Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1)
+  );
+  while (cursor < to) {
+    for (const record of await readMonth(monthOf(cursor))) {
+      const timestamp = new Date(record.timestamp);
+      if (timestamp < from || timestamp >= to) continue;
+      if (options.apiKeyId && record.apiKeyId !== options.apiKeyId) continue;
+      if (options.namespace && record.namespace !== options.namespace) continue;
+
+      const groupKey = JSON.stringify([record.apiKeyId, record.namespace]);
+      let group = groups.get(groupKey);
+      if (!group) {
+        group = {
+          apiKeyId: record.apiKeyId,
+          namespace: record.namespace,
+          ...emptyTotals(),
+        };
+        groups.set(groupKey, group);
+      }
+      addRecord(group, record);
+      addRecord(totals, record);
+    }
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+
+  return {
+    totals,
+    groups: [...groups.values()].sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
+
+async function loadBudgets(): Promise<Record<string, number>> {
+  if (!budgets) {
+    budgets = await readJsonFile<Record<string, number>>(BUDGETS_PATH, {});
+  }
+  return budgets;
+}
+
+/** Monthly USD budgets by namespace */
+export async function listBudgets(): Promise<Record<string, number>> {
+  return { ...(await loadBudgets()) };
+}
+
+/**
+ * Set a namespace's monthly budget in USD, or remove it with null.
+ */
+export async function setBudget(
+  namespace: string,
+  monthlyBudgetUsd: number | null
+): Promise<void> {
+  const current = await loadBudgets();
+  if (monthlyBudgetUsd === null) {
+    delete current[namespace];
+  } else {
+    current[namespace] = monthlyBudgetUsd;
+  }
+
+  return writeJsonFile(BUDGETS_PATH, { ...current });
+}
+
+/**
+ * The namespace's spend this calendar month (UTC) against its budget.
+ * Namespaces without a budget are never exceeded.
+ */
+export async function getBudgetStatus(
+  namespace: string
+): Promise<BudgetStatus> {
+  const month = monthOf(new Date());
+  const spentUsd = (await spendFor(month)).get(namespace) ?? 0;
+  const current = await loadBudgets();
+  const monthlyBudgetUsd = Object.prototype.hasOwnProperty.call(
+    current,
+    namespace
+  )
+    ? current[namespace]
+    : null;
+
+  return {
+    namespace,
+    month,
+    monthlyBudgetUsd,
+    spentUsd,
+    exceeded: monthlyBudgetUsd !== null && spentUsd >= monthlyBudgetUsd,
+  };
+}
@@ -0,0 +1,6 @@
+// The package entry point runs a debug harness when loaded without a parent
+// module (as under ESM), so the library file is imported directly instead.
+declare module "pdf-parse/lib/pdf-parse.js" {
+  import pdf from "pdf-parse";
+  export default pdf;
+}
@@ -1,39 +1,243 @@
-export function chunkText(
+import { splitSentences } from "./sentences.ts";
+import { countWordTokens } from "./tokenizer.ts";
+
+export const CHUNK_STRATEGIES = [
+  "words",
+  "sentence",
+  "recursive",
+  "token",
+] as const;
+
+export type ChunkStrategy = (typeof CHUNK_STRATEGIES)[number];
+
+export interface ChunkOptions {
+  /** Characters, or embedding model tokens for the "token" strategy */
+  chunkSize?: number;
+  /** Same unit as chunkSize; never exceeded by the carried-over units */
+  chunkOverlap?: number;
+  strategy?: ChunkStrategy;
+  /** Offsets (e.g. section headings) the recursive strategy never spans */
+  boundaries?: number[];
+}
+
+export interface TextChunk {
+  text: string;
+  /** Character offsets of the chunk within the original (unnormalized) text */
+  start: number;
+  end: number;
+  /** Size in the strategy's unit, including separators */
+  size: number;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  size: number;
+}
+
+function wordSpans(
   text: string,
-  options?: { chunkSize?: number; chunkOverlap?: number }
-): string[] {
-  const chunkSize = options?.chunkSize ?? 1200;
-  const chunkOverlap = options?.chunkOverlap ?? 200;
+  start: number = 0,
+  end: number = text.length,
+  measure: (word: string) => number = (word) => word.length
+): Span[] {
+  // Words are runs of anything but whitespace and control characters, which
+  // is what normalizing and splitting on whitespace would produce.
+  const region = text.slice(start, end);
+  return Array.from(region.matchAll(/[^\s\u0000-\u001F\u007F]+/g), (match) => ({
+    start: start + match.index!,
+    end: start + match.index! + match[0].length,
+    size: measure(match[0]),
+  }));
+}
 
-  const normalized = text
-    .replace(/\r\n/g, "\n")
-    .replace(/\t/g, " ")
-    .replace(/[\u0000-\u001F\u007F]+/g, " ")
-    .replace(/\s+$/gm, "")
-    .trim();
+function charSpan(start: number, end: number): Span {
+  return { start, end, size: end - start };
+}
 
-  const words = normalized.split(/\s+/);
-  const chunks: string[] = [];
-  let current: string[] = [];
-  let currentLength = 0;
-
-  for (const word of words) {
-    const len = word.length + 1;
-    if (currentLength + len > chunkSize && current.length > 0) {
-      chunks.push(current.join(" "));
-
-      if (chunkOverlap > 0) {
-        const overlapWords = Math.max(0, Math.floor(chunkOverlap / 6));
-        current = current.slice(-overlapWords);
-        currentLength = current.reduce((acc, w) => acc + w.length + 1, 0);
-      } else {
-        current = [];
-        currentLength = 0;
+function sentenceSpans(
+  text: string,
+  start: number,
+  end: number,
+  chunkSize: number
+): Span[] {
+  // Sentences longer than a whole chunk fall back to word boundaries
+  return splitSentences(text, start, end).flatMap((sentence) =>
+    sentence.end - sentence.start > chunkSize
+      ? wordSpans(text, sentence.start, sentence.end)
+      : [charSpan(sentence.start, sentence.end)]
+  );
+}
+
+const RECURSIVE_SEPARATORS = [/\n[ \t]*\n\s*/g, /\n/g];
+
+function recursiveSpans(
+  text: string,
+  start: number,
+  end: number,
+  chunkSize: number,
+  level: number = 0
+): Span[] {
+  const region = text.slice(start, end);
+  const trimmedStart = start + (region.length - region.trimStart().length);
+  const trimmedEnd = start + region.trimEnd().length;
+  if (trimmedEnd <= trimmedStart) return [];
+
+  if (trimmedEnd - trimmedStart <= chunkSize) {
+    return [charSpan(trimmedStart, trimmedEnd)];
+  }
+  if (level >= RECURSIVE_SEPARATORS.length) {
+    return sentenceSpans(text, trimmedStart, trimmedEnd, chunkSize);
+  }
+
+  // Paragraphs first, then lines, then sentences, then words
+  const spans: Span[] = [];
+  let pieceStart = start;
+  for (const match of region.matchAll(RECURSIVE_SEPARATORS[level])) {
+    const separatorStart = start + match.index!;
+    spans.push(
+      ...recursiveSpans(text, pieceStart, separatorStart, chunkSize, level + 1)
+    );
+    pieceStart = separatorStart + match[0].length;
+  }
+  spans.push(...recursiveSpans(text, pieceStart, end, chunkSize, level + 1));
+  return spans;
+}
+
+/**
+ * Greedily pack units into chunks of at most `chunkSize`, starting each new
+ * chunk with the trailing units of the previous one that fit in `chunkOverlap`.
+ */
+function pack(
+  units: Span[],
+  chunkSize: number,
+  chunkOverlap: number,
+  gap: number
+): Span[][] {
+  const chunks: Span[][] = [];
+  let current: Span[] = [];
+  let currentSize = 0;
+
+  for (const unit of units) {
+    const cost = unit.size + gap;
+    if (currentSize + cost > chunkSize && current.length > 0) {
+      chunks.push(current);
+
+      let carried = 0;
+      let keepFrom = current.length;
+      while (
+        keepFrom > 0 &&
+        carried + current[keepFrom - 1].size + gap <= chunkOverlap
+      ) {
+        keepFrom--;
+        carried += current[keepFrom].size + gap;
+      }
+      current = current.slice(keepFrom);
+      currentSize = carried;
+
+      // The overlap must leave room for the unit that forced the split
+      while (current.length > 0 && currentSize + cost > chunkSize) {
+        currentSize -= current[0].size + gap;
+        current = current.slice(1);
       }
     }
-    current.push(word);
-    currentLength += len;
+    current.push(unit);
+    currentSize += cost;
   }
-  if (current.length) chunks.push(current.join(" "));
+  if (current.length) chunks.push(current);
   return chunks;
 }
+
+function normalizeSlice(text: string): string {
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(/[\u0000-\u0009\u000B-\u001F\u007F]+/g, " ")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function regions(
+  text: string,
+  boundaries: number[] = []
+): Array<[number, number]> {
+  const cuts = [...new Set(boundaries)]
+    .filter((offset) => offset > 0 && offset < text.length)
+    .sort((a, b) => a - b);
+
+  const result: Array<[number, number]> = [];
+  let start = 0;
+  for (const cut of cuts) {
+    result.push([start, cut]);
+    start = cut;
+  }
+  result.push([start, text.length]);
+  return result;
+}
+
+export function chunkTextWithOffsets(
+  text: string,
+  options?: ChunkOptions
+): TextChunk[] {
+  const chunkSize = options?.chunkSize ?? 1200;
+  const chunkOverlap = options?.chunkOverlap ?? 200;
+  const strategy = options?.strategy ?? "words";
+
+  let groups: Span[][];
+  let joinWords = true;
+  let gap = 1;
+
+  switch (strategy) {
+    case "words":
+      groups = pack(wordSpans(text), chunkSize, chunkOverlap, gap);
+      break;
+    case "token":
+      gap = 0;
+      groups = pack(
+        wordSpans(text, 0, text.length, countWordTokens),
+        chunkSize,
+        chunkOverlap,
+        gap
+      );
+      break;
+    case "sentence":
+      joinWords = false;
+      groups = pack(
+        sentenceSpans(text, 0, text.length, chunkSize),
+        chunkSize,
+        chunkOverlap,
+        gap
+      );
+      break;
+    case "recursive":
+      // Never carry overlap across a heading into the next section
+      joinWords = false;
+      groups = regions(text, options?.boundaries).flatMap(([start, end]) =>
+        pack(
+          recursiveSpans(text, start, end, chunkSize),
+          chunkSize,
+          chunkOverlap,
+          gap
+        )
+      );
+      break;
+  }
+
+  return groups.map((units) => {
+    const start = units[0].start;
+    const end = units[units.length - 1].end;
+    return {
+      text: joinWords
+        ? units.map((unit) => text.slice(unit.start, unit.end)).join(" ")
+        : normalizeSlice(text.slice(start, end)),
+      start,
+      end,
+      size: units.reduce((acc, unit) => acc + unit.size + gap, 0),
+    };
+  });
+}
+
+export function chunkText(text: string, options?: ChunkOptions): string[] {
+  return chunkTextWithOffsets(text, options).map((chunk) => chunk.text);
+}
@@ -0,0 +1,58 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export const DATA_DIR = process.env.DATA_DIR || "data";
+
+export async function readJsonFile<T>(
+  filePath: string,
+  fallback: T
+): Promise<T> {
+  try {
+    const raw = await readFile(filePath, "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") throw error;
+    return fallback;
+  }
+}
+
+// Tail of each file's pending tasks; removed once the file is idle
+const fileQueues = new Map<string, Promise<void>>();
+
+/**
+ * Run `task` once every task queued earlier for `filePath` has settled, so
+ * changes to one file apply in call order. A failed task rejects only its
+ * own promise; later tasks still run.
+ */
+export function withFileLock<T>(
+  filePath: string,
+  task: () => Promise<T>
+): Promise<T> {
+  const previous = fileQueues.get(filePath) ?? Promise.resolve();
+  const current = previous.then(task);
+  const settled = current.then(
+    () => {},
+    () => {}
+  );
+  fileQueues.set(filePath, settled);
+  settled.then(() => {
+    if (fileQueues.get(filePath) === settled) fileQueues.delete(filePath);
+  });
+  return current;
+}
+
+/**
+ * Write JSON to a temp file and rename it into place, so a crash mid-write
+ * never leaves a truncated file behind. Writes to one file are serialized.
+ */
+export function writeJsonFile(filePath: string, value: unknown): Promise<void> {
+  const json = JSON.stringify(value, null, 2);
+  return withFileLock(filePath, async () => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    // Unique per write, so no other process or write can rename it away
+    const tmpPath = `${filePath}.${process.pid}.${randomBytes(6).toString("hex")}.tmp`;
+    await writeFile(tmpPath, json);
+    await rename(tmpPath, filePath);
+  });
+}
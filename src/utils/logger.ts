@@ -0,0 +1,68 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const LOG_LEVEL: LogLevel =
+  (process.env.LOG_LEVEL as LogLevel) in LEVELS
+    ? (process.env.LOG_LEVEL as LogLevel)
+    : "info";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** A logger adding `bindings`, such as a request ID, to every line */
+  child(bindings: LogFields): Logger;
+}
+
+// Errors have no enumerable fields, so JSON.stringify would print {}
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * One JSON object per line: time, level, message, then the bound and
+ * per-call fields. Warnings and errors go to stderr.
+ */
+export function createLogger(bindings: LogFields = {}): Logger {
+  const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < LEVELS[LOG_LEVEL]) return;
+
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+    };
+    for (const [key, value] of Object.entries({ ...bindings, ...fields })) {
+      entry[key] = serialize(value);
+    }
+
+    const line = JSON.stringify(entry) + "\n";
+    if (LEVELS[level] >= LEVELS.warn) {
+      process.stderr.write(line);
+    } else {
+      process.stdout.write(line);
+    }
+  };
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+    child: (more) => createLogger({ ...bindings, ...more }),
+  };
+}
+
+export const logger = createLogger();
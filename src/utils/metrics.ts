@@ -0,0 +1,193 @@
+export type Labels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+interface Metric {
+  /** Lines in the Prometheus text exposition format */
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Series are keyed by their label values in declared order
+function seriesKey(labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => labels[name] ?? ""));
+}
+
+function pickLabels(labelNames: string[], labels: Labels): Labels {
+  return Object.fromEntries(
+    labelNames.map((name) => [name, labels[name] ?? ""])
+  );
+}
+
+export function createCounter(options: {
+  name: string;
+  help: string;
+  labelNames?: string[];
+}): Counter {
+  const { name, help, labelNames = [] } = options;
+  const series = new Map<string, { labels: Labels; value: number }>();
+
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} counter`,
+      ...[...series.values()].map(
+        ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`
+      ),
+    ],
+  });
+
+  return {
+    inc(labels = {}, value = 1) {
+      const key = seriesKey(labelNames, labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels: pickLabels(labelNames, labels), value: 0 };
+        series.set(key, entry);
+      }
+      entry.value += value;
+    },
+  };
+}
+
+/** Seconds, from a cache hit to a slow LLM call */
+export const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+];
+
+/**
+ * Cumulative buckets with upper bounds `buckets` (ascending), plus the
+ * implicit `+Inf`.
+ */
+export function createHistogram(options: {
+  name: string;
+  help: string;
+  labelNames?: string[];
+  buckets: number[];
+}): Histogram {
+  const { name, help, labelNames = [], buckets } = options;
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map(
+          (bound, i) =>
+            `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`
+        ),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+    ],
+  });
+
+  return {
+    observe(labels, value) {
+      const key = seriesKey(labelNames, labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = {
+          labels: pickLabels(labelNames, labels),
+          counts: buckets.map(() => 0),
+          sum: 0,
+          count: 0,
+        };
+        series.set(key, entry);
+      }
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+    },
+  };
+}
+
+/** Every metric, in the Prometheus text exposition format */
+export function renderMetrics(): string {
+  return registry.flatMap((metric) => metric.render()).join("\n") + "\n";
+}
+
+export const httpRequests = createCounter({
+  name: "cogno_http_requests_total",
+  help: "HTTP requests by method, route and status",
+  labelNames: ["method", "route", "status"],
+});
+
+export const httpRequestDuration = createHistogram({
+  name: "cogno_http_request_duration_seconds",
+  help: "HTTP request latency by method and route",
+  labelNames: ["method", "route"],
+  buckets: DURATION_BUCKETS,
+});
+
+export const stageDuration = createHistogram({
+  name: "cogno_stage_duration_seconds",
+  help: "Pipeline stage latency by stage and outcome (ok or error)",
+  labelNames: ["stage", "outcome"],
+  buckets: DURATION_BUCKETS,
+});
+
+export const chunksIngested = createCounter({
+  name: "cogno_chunks_ingested_total",
+  help: "Chunks upserted into the vector store",
+});
+
+export const upsertBatchFailures = createCounter({
+  name: "cogno_upsert_batch_failures_total",
+  help: "Failed upsert batches by outcome (retried or gave_up)",
+  labelNames: ["outcome"],
+});
+
+export const critiqueScores = createHistogram({
+  name: "cogno_critique_score",
+  help: "Critique scores of initial answers",
+  buckets: [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1],
+});
+
+export const critiquedAnswers = createCounter({
+  name: "cogno_critiqued_answers_total",
+  help: "Critiqued answers by whether they scored low enough to trigger the improvement loop",
+  labelNames: ["improvement"],
+});
+
+export const cacheLookups = createCounter({
+  name: "cogno_cache_lookups_total",
+  help: "Cache lookups by layer and result (hit or miss)",
+  labelNames: ["layer", "result"],
+});
+
+export const llmTokens = createCounter({
+  name: "cogno_llm_tokens_total",
+  help: "LLM tokens by stage, model and type (prompt or completion)",
+  labelNames: ["stage", "model", "type"],
+});
+
+export const llmCalls = createCounter({
+  name: "cogno_llm_calls_total",
+  help: "LLM calls by stage and model",
+  labelNames: ["stage", "model"],
+});
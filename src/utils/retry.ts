@@ -0,0 +1,117 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { Logger, logger } from "./logger.ts";
+
+export class TimeoutError extends Error {
+  constructor(label: string, ms: number) {
+    super(`${label} timed out after ${ms}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Reject if `promise` has not settled within `ms`. The underlying work is not
+ * cancelled; its late result is ignored.
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  label: string
+): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(label, ms)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Thrown by the OpenAI and Pinecone clients when a server is unreachable or
+// failing rather than rejecting the request
+const TRANSIENT_ERROR_NAMES = new Set([
+  "APIConnectionError",
+  "APIConnectionTimeoutError",
+  "PineconeConnectionError",
+  "PineconeInternalServerError",
+  "PineconeUnavailableError",
+]);
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+
+/**
+ * Whether an error may go away on its own: timeouts, network failures, 429
+ * and 5xx responses. Anything else, such as a missing credential, a 4xx or a
+ * response that fails to parse, fails the same way on every attempt.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (error instanceof TimeoutError || TRANSIENT_ERROR_NAMES.has(error.name)) {
+    return true;
+  }
+
+  const { status, code, cause } = error as {
+    status?: unknown;
+    code?: unknown;
+    cause?: unknown;
+  };
+  if (typeof status === "number") return status === 429 || status >= 500;
+  if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) return true;
+
+  // fetch reports network failures as TypeError("fetch failed", { cause })
+  return cause !== undefined && isTransientError(cause);
+}
+
+/**
+ * Run `fn` with a timeout per attempt, retrying failures with exponential
+ * backoff (500ms, 1s, 2s, ...). Each attempt gets a signal that is aborted
+ * when it fails, so work still running after a timeout can stop. Throws the
+ * last error once `retries` are spent, or straight away when `shouldRetry`
+ * (by default `isTransientError`) returns false. Retries are logged to `log`,
+ * such as a request's logger.
+ */
+export async function withRetry<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: {
+    label: string;
+    retries: number;
+    timeoutMs: number;
+    shouldRetry?: (error: unknown) => boolean;
+    log?: Logger;
+  }
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const attemptController = new AbortController();
+    try {
+      return await withTimeout(
+        fn(attemptController.signal),
+        options.timeoutMs,
+        options.label
+      );
+    } catch (error) {
+      attemptController.abort(error);
+      if (
+        attempt >= options.retries ||
+        !(options.shouldRetry ?? isTransientError)(error)
+      ) {
+        throw error;
+      }
+
+      const delay = 500 * 2 ** attempt;
+      (options.log ?? logger).warn("Retrying after failure", {
+        label: options.label,
+        attempt: attempt + 1,
+        delayMs: delay,
+        error: error instanceof Error ? error.message : error,
+      });
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,113 @@
+// Abbreviations common in scholastic and academic texts ("St. Thomas",
+// "cf. q. 2, a. 3", "ad 1") that end in a period but not a sentence.
+const ABBREVIATIONS = new Set([
+  "st",
+  "sts",
+  "fr",
+  "dr",
+  "mr",
+  "mrs",
+  "ms",
+  "cf",
+  "e.g",
+  "i.e",
+  "viz",
+  "etc",
+  "ibid",
+  "op",
+  "cit",
+  "vol",
+  "vols",
+  "ch",
+  "chap",
+  "lib",
+  "cap",
+  "art",
+  "arts",
+  "q",
+  "qq",
+  "a",
+  "aa",
+  "obj",
+  "resp",
+  "sc",
+  "p",
+  "pp",
+  "n",
+  "no",
+  "nos",
+  "ed",
+  "eds",
+  "trans",
+]);
+
+const TERMINATOR_PATTERN = /[.!?]+["'”’)\]]*(?=\s|$)/g;
+
+function isAbbreviation(text: string, terminatorIndex: number): boolean {
+  const before = text.slice(Math.max(0, terminatorIndex - 12), terminatorIndex);
+  const word = before.match(/([\p{L}.]+)$/u)?.[1];
+  if (!word) return false;
+
+  // Initials such as "J. Maritain"
+  if (/^\p{Lu}$/u.test(word)) return true;
+  return ABBREVIATIONS.has(word.toLowerCase());
+}
+
+function splitParagraph(
+  text: string,
+  start: number,
+  end: number,
+  sentences: Array<{ start: number; end: number }>
+) {
+  const region = text.slice(start, end);
+  let sentenceStart = 0;
+
+  const push = (from: number, to: number) => {
+    const slice = region.slice(from, to);
+    const leading = slice.length - slice.trimStart().length;
+    const trimmed = slice.trim();
+    if (trimmed) {
+      sentences.push({
+        start: start + from + leading,
+        end: start + from + leading + trimmed.length,
+      });
+    }
+  };
+
+  for (const match of region.matchAll(TERMINATOR_PATTERN)) {
+    const terminatorEnd = match.index! + match[0].length;
+    const next = region.slice(terminatorEnd).match(/\S/u)?.[0];
+
+    // A sentence only ends before something that can start one
+    if (next && !/[\p{Lu}\p{N}"'“‘(\[]/u.test(next)) continue;
+    if (match[0].startsWith(".") && isAbbreviation(region, match.index!)) {
+      continue;
+    }
+
+    push(sentenceStart, terminatorEnd);
+    sentenceStart = terminatorEnd;
+  }
+  push(sentenceStart, region.length);
+}
+
+/**
+ * Split `text[start, end)` into sentence spans, with surrounding whitespace
+ * trimmed. Blank lines always end a sentence, so unpunctuated headings stand
+ * alone. Offsets are relative to `text`.
+ */
+export function splitSentences(
+  text: string,
+  start: number = 0,
+  end: number = text.length
+): Array<{ start: number; end: number }> {
+  const sentences: Array<{ start: number; end: number }> = [];
+  let paragraphStart = start;
+
+  for (const match of text.slice(start, end).matchAll(/\n[ \t]*\n/g)) {
+    splitParagraph(text, paragraphStart, start + match.index!, sentences);
+    paragraphStart = start + match.index! + match[0].length;
+  }
+  splitParagraph(text, paragraphStart, end, sentences);
+
+  return sentences;
+}
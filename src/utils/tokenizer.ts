@@ -0,0 +1,27 @@
+import llama3Tokenizer from "llama3-tokenizer-js";
+
+// llama-text-embed-v2 is built on Llama 3, so its tokenizer gives the counts
+// the embedding model actually sees.
+export const EMBED_MODEL_MAX_TOKENS = 2048;
+
+const MAX_CACHE_ENTRIES = 100_000;
+const wordTokenCache = new Map<string, number>();
+
+export function countTokens(text: string): number {
+  return llama3Tokenizer.encode(text, { bos: false, eos: false }).length;
+}
+
+/**
+ * Token count of a word as it appears mid-text (with its leading space).
+ * Llama 3 pre-tokenizes on word boundaries, so per-word counts sum to the
+ * count of the joined text.
+ */
+export function countWordTokens(word: string): number {
+  const cached = wordTokenCache.get(word);
+  if (cached !== undefined) return cached;
+
+  if (wordTokenCache.size >= MAX_CACHE_ENTRIES) wordTokenCache.clear();
+  const count = countTokens(` ${word}`);
+  wordTokenCache.set(word, count);
+  return count;
+}
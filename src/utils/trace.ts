@@ -0,0 +1,80 @@
+import { Logger, logger } from "./logger.ts";
+import { stageDuration } from "./metrics.ts";
+
+export interface Span {
+  name: string;
+  /** Milliseconds from the start of the trace */
+  startMs: number;
+  durationMs: number;
+  attributes?: Record<string, unknown>;
+  /** Set when the spanned work threw */
+  error?: string;
+}
+
+/** Timings of one request's work, in the order each span finished */
+export interface Trace {
+  requestId: string;
+  startedAt: number;
+  spans: Span[];
+  /** Bound to the request ID */
+  log: Logger;
+}
+
+export function createTrace(requestId: string): Trace {
+  return {
+    requestId,
+    startedAt: Date.now(),
+    spans: [],
+    log: logger.child({ requestId }),
+  };
+}
+
+/**
+ * Time `fn` in the stage latency metrics and, given a trace, as one of its
+ * spans, logged at debug level.
+ */
+export async function withSpan<T>(
+  trace: Trace | undefined,
+  name: string,
+  attributes: Record<string, unknown> | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  const started = Date.now();
+  const finish = (error?: unknown) => {
+    stageDuration.observe(
+      { stage: name, outcome: error === undefined ? "ok" : "error" },
+      (Date.now() - started) / 1000
+    );
+    if (!trace) return;
+
+    const span: Span = {
+      name,
+      startMs: started - trace.startedAt,
+      durationMs: Date.now() - started,
+      ...(attributes && { attributes }),
+      ...(error !== undefined && {
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    };
+    trace.spans.push(span);
+    trace.log.debug("span", { ...span });
+  };
+
+  try {
+    const result = await fn();
+    finish();
+    return result;
+  } catch (error) {
+    finish(error);
+    throw error;
+  }
+}
+
+/** The trace as returned to a client asking for `debug` */
+export function traceSummary(trace: Trace) {
+  return {
+    requestId: trace.requestId,
+    durationMs: Date.now() - trace.startedAt,
+    spans: trace.spans,
+  };
+}
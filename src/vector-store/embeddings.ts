@@ -0,0 +1,77 @@
+import OpenAI from "openai";
+import { tokenize } from "../services/keyword-index.ts";
+
+/**
+ * Turns texts into vectors for stores that embed locally. The name is saved
+ * with each namespace, since vectors from different models can't be mixed.
+ */
+export interface EmbeddingFunction {
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// 32-bit FNV-1a
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline embedding by feature hashing of word unigrams and bigrams. It only
+ * captures lexical overlap, but needs no model or network, which is enough
+ * for development, demos and integration tests.
+ */
+export function createHashEmbedding(dimension = 512): EmbeddingFunction {
+  return {
+    name: `hash-${dimension}`,
+    async embed(texts) {
+      return texts.map((text) => {
+        const vector = new Array<number>(dimension).fill(0);
+        const tokens = tokenize(text);
+        const features = [
+          ...tokens,
+          ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+        ];
+        for (const feature of features) {
+          const hash = hashToken(feature);
+          // The top bit picks a sign, so collisions tend to cancel out
+          vector[hash % dimension] += hash & 0x80000000 ? -1 : 1;
+        }
+        return vector;
+      });
+    },
+  };
+}
+
+/**
+ * OpenAI embeddings, or any server exposing the same `/embeddings` endpoint
+ * (Ollama, llama.cpp) when `baseURL` is set.
+ */
+export function createOpenAIEmbedding(options: {
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+}): EmbeddingFunction {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+  });
+
+  return {
+    name: `openai:${options.model}`,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      const response = await client.embeddings.create({
+        model: options.model,
+        input: texts,
+      });
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    },
+  };
+}
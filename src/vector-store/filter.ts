@@ -0,0 +1,102 @@
+import { FieldCondition, FilterValue, RecordFilter } from "./types.ts";
+
+/**
+ * Filterable API metadata fields and the stored record fields they map to.
+ */
+export const FILTER_FIELDS = {
+  source: "source",
+  documentId: "document_id",
+  author: "author",
+  work: "work",
+  tags: "tags",
+  language: "language",
+  year: "year",
+  uploadedAt: "uploaded_at",
+} as const;
+
+export type FilterField = keyof typeof FILTER_FIELDS;
+
+/** Like `FieldCondition`, but `uploadedAt` bounds may be ISO date strings */
+export type MetadataCondition =
+  | FilterValue
+  | {
+      $eq?: FilterValue;
+      $in?: FilterValue[];
+      $gt?: number | string;
+      $gte?: number | string;
+      $lt?: number | string;
+      $lte?: number | string;
+    };
+
+/** A query filter in API terms: camelCase field names */
+export type MetadataFilter = Partial<Record<FilterField, MetadataCondition>>;
+
+// Stored as epoch milliseconds, since range operators only compare numbers
+function toTimestamp(value: FilterValue): FilterValue {
+  return typeof value === "string" ? Date.parse(value) : value;
+}
+
+function mapCondition(
+  condition: MetadataCondition,
+  map: (value: FilterValue) => FilterValue
+): FieldCondition {
+  if (typeof condition !== "object") return map(condition);
+
+  return Object.fromEntries(
+    Object.entries(condition).map(([operator, operand]) => [
+      operator,
+      Array.isArray(operand) ? operand.map(map) : map(operand),
+    ])
+  );
+}
+
+/**
+ * Translate an API filter into stored field names and values.
+ */
+export function toRecordFilter(filter: MetadataFilter): RecordFilter {
+  const recordFilter: RecordFilter = {};
+  for (const [field, condition] of Object.entries(filter)) {
+    if (condition === undefined) continue;
+    recordFilter[FILTER_FIELDS[field as FilterField]] = mapCondition(
+      condition,
+      field === "uploadedAt" ? toTimestamp : (value) => value
+    );
+  }
+  return recordFilter;
+}
+
+function matchesCondition(actual: unknown, condition: FieldCondition): boolean {
+  const values = Array.isArray(actual) ? actual : [actual];
+  if (typeof condition !== "object") return values.includes(condition);
+
+  const { $eq, $in, $gt, $gte, $lt, $lte } = condition;
+  if ($eq !== undefined && !values.includes($eq)) return false;
+  if ($in !== undefined && !$in.some((value) => values.includes(value))) {
+    return false;
+  }
+
+  const inRange = (value: unknown) =>
+    typeof value === "number" &&
+    ($gt === undefined || value > $gt) &&
+    ($gte === undefined || value >= $gte) &&
+    ($lt === undefined || value < $lt) &&
+    ($lte === undefined || value <= $lte);
+  const hasRange =
+    $gt !== undefined ||
+    $gte !== undefined ||
+    $lt !== undefined ||
+    $lte !== undefined;
+  return !hasRange || values.some(inRange);
+}
+
+/**
+ * Evaluate a record filter locally, with the same semantics as Pinecone.
+ */
+export function matchesFilter(
+  fields: Record<string, unknown>,
+  filter: RecordFilter
+): boolean {
+  return Object.entries(filter).every(([field, condition]) =>
+    matchesCondition(fields[field], condition)
+  );
+}
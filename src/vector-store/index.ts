@@ -0,0 +1,120 @@
+import { lexicalReranker } from "../services/rerankers.ts";
+import { logger } from "../utils/logger.ts";
+import { chunksIngested, upsertBatchFailures } from "../utils/metrics.ts";
+import {
+  createHashEmbedding,
+  createOpenAIEmbedding,
+  EmbeddingFunction,
+} from "./embeddings.ts";
+import { createLocalStore } from "./local.ts";
+import { pineconeStore } from "./pinecone.ts";
+import { ChunkMetadata, chunkRecord } from "./records.ts";
+import { NamespaceStats, VectorRecord, VectorStore } from "./types.ts";
+
+export type {
+  FieldCondition,
+  FilterValue,
+  NamespaceStats,
+  RecordFilter,
+  VectorHit,
+  VectorRecord,
+  VectorSearchOptions,
+  VectorStore,
+  VectorStoreStats,
+} from "./types.ts";
+export type { EmbeddingFunction } from "./embeddings.ts";
+export type {
+  FilterField,
+  MetadataCondition,
+  MetadataFilter,
+} from "./filter.ts";
+export { FILTER_FIELDS, matchesFilter, toRecordFilter } from "./filter.ts";
+export type { ChunkMetadata } from "./records.ts";
+export { chunkRecord, fieldsToMetadata, SEARCH_FIELDS } from "./records.ts";
+
+const VECTOR_STORE = process.env.VECTOR_STORE || "pinecone";
+
+function getEmbeddingFunction(): EmbeddingFunction {
+  if (process.env.LOCAL_EMBEDDINGS === "openai") {
+    const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+    const baseURL = process.env.EMBEDDING_BASE_URL || process.env.LLM_BASE_URL;
+    if (!apiKey && !baseURL) {
+      throw new Error("Missing OPENAI_API_KEY for local OpenAI embeddings");
+    }
+    return createOpenAIEmbedding({
+      model: process.env.EMBEDDING_MODEL || "text-embedding-3-small",
+      apiKey: apiKey || "not-needed",
+      baseURL,
+    });
+  }
+
+  return createHashEmbedding(Number(process.env.EMBEDDING_DIMENSION || 512));
+}
+
+let vectorStore: VectorStore | null = null;
+
+/**
+ * The store selected by `VECTOR_STORE` ("pinecone" or "local").
+ */
+export function getVectorStore(): VectorStore {
+  if (!vectorStore) {
+    vectorStore =
+      VECTOR_STORE === "local"
+        ? createLocalStore({
+            embedding: getEmbeddingFunction(),
+            rerank: lexicalReranker.rerank,
+          })
+        : pineconeStore;
+  }
+  return vectorStore;
+}
+
+const UPSERT_MAX_RETRIES = Number(process.env.UPSERT_MAX_RETRIES || 3);
+
+async function upsertBatchWithRetry(namespace: string, batch: VectorRecord[]) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await getVectorStore().upsert(namespace, batch);
+    } catch (error) {
+      if (attempt >= UPSERT_MAX_RETRIES) {
+        upsertBatchFailures.inc({ outcome: "gave_up" });
+        throw error;
+      }
+      upsertBatchFailures.inc({ outcome: "retried" });
+
+      const delay = 500 * 2 ** attempt;
+      logger.warn("Upsert batch failed, retrying", {
+        namespace,
+        attempt: attempt + 1,
+        delayMs: delay,
+        error,
+      });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export async function upsertVectors(
+  texts: string[],
+  metadata: ChunkMetadata[],
+  namespace: string,
+  onBatch?: (upserted: number) => void | Promise<void>
+) {
+  // Pinecone's integrated embedding accepts at most 96 records per request
+  const BATCH_SIZE = 96;
+
+  const records = texts.map((text, i) => chunkRecord(text, metadata[i]));
+
+  for (let i = 0; i < records.length; i += BATCH_SIZE) {
+    const batch = records.slice(i, i + BATCH_SIZE);
+
+    await upsertBatchWithRetry(namespace, batch);
+    chunksIngested.inc({}, batch.length);
+    await onBatch?.(i + batch.length);
+  }
+}
+
+export async function listNamespaces(): Promise<NamespaceStats[]> {
+  const { namespaces } = await getVectorStore().stats();
+  return namespaces.sort((a, b) => a.name.localeCompare(b.name));
+}
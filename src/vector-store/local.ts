@@ -0,0 +1,240 @@
+import path from "node:path";
+import { readdir, rm } from "node:fs/promises";
+import {
+  DATA_DIR,
+  readJsonFile,
+  withFileLock,
+  writeJsonFile,
+} from "../utils/json-file.ts";
+import { EmbeddingFunction } from "./embeddings.ts";
+import { matchesFilter } from "./filter.ts";
+import { VectorRecord, VectorStore } from "./types.ts";
+
+const VECTORS_DIR = path.join(DATA_DIR, "vectors");
+
+interface StoredRecord {
+  fields: Record<string, unknown>;
+  /** Unit-length Float32 vector, base64 encoded to keep files compact */
+  vector: string;
+}
+
+interface NamespaceFile {
+  embedding: string;
+  dimension: number;
+  records: Record<string, StoredRecord>;
+}
+
+interface NamespaceData {
+  embedding: string;
+  dimension: number;
+  records: Map<
+    string,
+    { fields: Record<string, unknown>; vector: Float32Array }
+  >;
+}
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(
+    vector.buffer,
+    vector.byteOffset,
+    vector.byteLength
+  ).toString("base64");
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, "base64");
+  return new Float32Array(
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+  );
+}
+
+function normalize(values: number[]): Float32Array {
+  const vector = Float32Array.from(values);
+  const norm = Math.hypot(...vector);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Brute-force vector store persisted as one JSON file per namespace under
+ * `data/vectors`. Suited to development and tests, not large corpora.
+ */
+export function createLocalStore(options: {
+  embedding: EmbeddingFunction;
+  /** Reranks candidates when a search asks for it, scores in [0, 1] */
+  rerank?: (
+    query: string,
+    documents: string[],
+    topN: number
+  ) => Promise<Array<{ index: number; score: number }>>;
+}): VectorStore {
+  const { embedding } = options;
+  const namespaces = new Map<string, NamespaceData>();
+
+  const namespacePath = (namespace: string) =>
+    path.join(VECTORS_DIR, `${encodeURIComponent(namespace)}.json`);
+
+  async function load(namespace: string): Promise<NamespaceData> {
+    const cached = namespaces.get(namespace);
+    if (cached) return cached;
+
+    const stored = await readJsonFile<NamespaceFile>(namespacePath(namespace), {
+      embedding: embedding.name,
+      dimension: 0,
+      records: {},
+    });
+    if (
+      stored.embedding !== embedding.name &&
+      Object.keys(stored.records).length > 0
+    ) {
+      throw new Error(
+        `Namespace "${namespace}" was indexed with ${stored.embedding} embeddings, not ${embedding.name}; re-index it or switch LOCAL_EMBEDDINGS back`
+      );
+    }
+
+    const data: NamespaceData = {
+      embedding: embedding.name,
+      dimension: stored.dimension,
+      records: new Map(
+        Object.entries(stored.records).map(([id, record]) => [
+          id,
+          { fields: record.fields, vector: decodeVector(record.vector) },
+        ])
+      ),
+    };
+    namespaces.set(namespace, data);
+    return data;
+  }
+
+  function persist(namespace: string, data: NamespaceData): Promise<void> {
+    const snapshot: NamespaceFile = {
+      embedding: data.embedding,
+      dimension: data.dimension,
+      records: Object.fromEntries(
+        Array.from(data.records, ([id, record]) => [
+          id,
+          { fields: record.fields, vector: encodeVector(record.vector) },
+        ])
+      ),
+    };
+    return writeJsonFile(namespacePath(namespace), snapshot);
+  }
+
+  async function listStored(): Promise<string[]> {
+    const files = await readdir(VECTORS_DIR).catch((error) => {
+      if (error?.code === "ENOENT") return [];
+      throw error;
+    });
+    return files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => decodeURIComponent(file.slice(0, -".json".length)));
+  }
+
+  return {
+    name: "local",
+
+    async init() {},
+
+    async upsert(namespace, records: VectorRecord[]) {
+      const data = await load(namespace);
+      const vectors = await embedding.embed(
+        records.map((record) => record.chunk_text)
+      );
+
+      records.forEach(({ id, ...fields }, i) => {
+        data.records.set(id, { fields, vector: normalize(vectors[i]) });
+      });
+      data.dimension = vectors[0]?.length ?? data.dimension;
+      await persist(namespace, data);
+    },
+
+    async search(namespace, query, searchOptions) {
+      const data = await load(namespace);
+      if (data.records.size === 0) return [];
+
+      const [queryVector] = await embedding.embed([query]);
+      const normalized = normalize(queryVector);
+      const rerank = searchOptions.rerank !== false && options.rerank;
+
+      const { filter } = searchOptions;
+
+      const candidates = Array.from(data.records)
+        .filter(([, record]) => !filter || matchesFilter(record.fields, filter))
+        .map(([id, record]) => ({
+          _id: id,
+          _score: dot(normalized, record.vector),
+          fields: record.fields as Record<string, any>,
+        }))
+        .sort((a, b) => b._score - a._score)
+        .slice(0, rerank ? searchOptions.topK : searchOptions.topN);
+
+      if (!rerank) return candidates;
+
+      const ranked = await rerank(
+        query,
+        candidates.map((hit) => String(hit.fields.chunk_text ?? "")),
+        searchOptions.topN
+      );
+      return ranked.map((result) => ({
+        ...candidates[result.index],
+        _score: result.score,
+      }));
+    },
+
+    async delete(namespace, selector) {
+      const data = await load(namespace);
+      if ("filter" in selector) {
+        for (const [id, record] of data.records) {
+          if (matchesFilter(record.fields, selector.filter)) {
+            data.records.delete(id);
+          }
+        }
+      } else {
+        for (const id of selector.ids) data.records.delete(id);
+      }
+      await persist(namespace, data);
+    },
+
+    async deleteNamespace(namespace) {
+      const stored = await listStored();
+      if (!namespaces.has(namespace) && !stored.includes(namespace)) {
+        return false;
+      }
+
+      namespaces.delete(namespace);
+      // Queued after pending writes, so none of them recreates the file
+      await withFileLock(namespacePath(namespace), () =>
+        rm(namespacePath(namespace), { force: true })
+      );
+      return true;
+    },
+
+    async stats() {
+      const names = new Set([...(await listStored()), ...namespaces.keys()]);
+      const loaded = await Promise.all(
+        Array.from(names, async (name) => ({ name, data: await load(name) }))
+      );
+      const nonEmpty = loaded.filter(({ data }) => data.records.size > 0);
+
+      return {
+        namespaces: nonEmpty.map(({ name, data }) => ({
+          name,
+          recordCount: data.records.size,
+        })),
+        totalRecordCount: nonEmpty.reduce(
+          (sum, { data }) => sum + data.records.size,
+          0
+        ),
+        dimension: nonEmpty.find(({ data }) => data.dimension)?.data.dimension,
+      };
+    },
+  };
+}
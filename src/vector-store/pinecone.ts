@@ -0,0 +1,155 @@
+import { IntegratedRecord, Pinecone, Index } from "@pinecone-database/pinecone";
+import { SEARCH_FIELDS } from "./records.ts";
+import { VectorStore } from "./types.ts";
+
+const PINECONE_INDEX_NAME = process.env.PINECONE_INDEX_NAME || "cogno-rag";
+const PINECONE_CLOUD = process.env.PINECONE_CLOUD || "aws";
+const PINECONE_REGION = process.env.PINECONE_REGION || "us-east-1";
+
+export const RERANK_MODEL = "bge-reranker-v2-m3";
+
+let pineconeClient: Pinecone | null = null;
+let pineconeIndex: Index | null = null;
+
+function getClient(): Pinecone {
+  if (!pineconeClient) {
+    const apiKey = process.env.PINECONE_API_KEY;
+    if (!apiKey) {
+      throw new Error("Missing PINECONE_API_KEY");
+    }
+    pineconeClient = new Pinecone({ apiKey });
+  }
+  return pineconeClient;
+}
+
+async function ensurePineconeIndex(): Promise<Index> {
+  if (pineconeIndex) return pineconeIndex;
+
+  const pc = getClient();
+
+  const indexes = await pc.listIndexes();
+  const hasIndex =
+    indexes.indexes?.some((idx: any) => idx.name === PINECONE_INDEX_NAME) ||
+    false;
+
+  if (!hasIndex) {
+    await pc.createIndexForModel({
+      name: PINECONE_INDEX_NAME,
+      cloud: PINECONE_CLOUD as "aws" | "gcp",
+      region: PINECONE_REGION,
+      embed: {
+        model: "llama-text-embed-v2",
+        fieldMap: { text: "chunk_text" },
+      },
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 10000));
+  }
+
+  pineconeIndex = pc.Index(PINECONE_INDEX_NAME);
+  return pineconeIndex;
+}
+
+async function getNamespaceIndex(namespace: string): Promise<Index> {
+  const index = await ensurePineconeIndex();
+  return index.namespace(namespace);
+}
+
+/**
+ * Score arbitrary texts against a query with Pinecone's hosted reranker.
+ * Scores are relevance probabilities in [0, 1].
+ */
+export async function rerankTexts(
+  query: string,
+  documents: string[],
+  topN: number
+): Promise<Array<{ index: number; score: number }>> {
+  if (documents.length === 0) return [];
+
+  const result = await getClient().inference.rerank(
+    RERANK_MODEL,
+    query,
+    documents,
+    { topN: Math.min(topN, documents.length), returnDocuments: false }
+  );
+  return result.data.map((doc) => ({ index: doc.index, score: doc.score }));
+}
+
+/**
+ * Pinecone index with integrated inference: Pinecone embeds records and
+ * queries itself, and reranks hits with its hosted cross-encoder.
+ */
+export const pineconeStore: VectorStore = {
+  name: "pinecone",
+
+  async init() {
+    await ensurePineconeIndex();
+  },
+
+  async upsert(namespace, records) {
+    const index = await getNamespaceIndex(namespace);
+    // chunkRecord only writes metadata values Pinecone accepts
+    await index.upsertRecords(records as IntegratedRecord[]);
+  },
+
+  async search(namespace, query, options) {
+    const index = await getNamespaceIndex(namespace);
+
+    const results = await index.searchRecords({
+      query: {
+        inputs: { text: query },
+        topK: options.rerank === false ? options.topN : options.topK,
+        ...(options.filter && { filter: options.filter }),
+      },
+      fields: SEARCH_FIELDS,
+      ...(options.rerank !== false && {
+        rerank: {
+          model: RERANK_MODEL,
+          topN: options.topN,
+          rankFields: ["chunk_text"],
+        },
+      }),
+    });
+
+    return (results.result.hits ?? []).map((hit) => ({
+      _id: hit._id,
+      _score: hit._score,
+      fields: hit.fields as Record<string, any>,
+    }));
+  },
+
+  async delete(namespace, selector) {
+    const index = await getNamespaceIndex(namespace);
+    if ("filter" in selector) {
+      await index.deleteMany(selector.filter);
+      return;
+    }
+
+    const BATCH_SIZE = 1000;
+    for (let i = 0; i < selector.ids.length; i += BATCH_SIZE) {
+      await index.deleteMany(selector.ids.slice(i, i + BATCH_SIZE));
+    }
+  },
+
+  async deleteNamespace(namespace) {
+    const { namespaces } = await pineconeStore.stats();
+    if (!namespaces.some((ns) => ns.name === namespace)) return false;
+
+    const index = await ensurePineconeIndex();
+    await index.deleteNamespace(namespace);
+    return true;
+  },
+
+  async stats() {
+    const index = await ensurePineconeIndex();
+    const stats = await index.describeIndexStats();
+
+    return {
+      namespaces: Object.entries(stats.namespaces ?? {}).map(
+        ([name, summary]) => ({ name, recordCount: summary.recordCount })
+      ),
+      totalRecordCount: stats.totalRecordCount ?? 0,
+      dimension: stats.dimension,
+    };
+  },
+};
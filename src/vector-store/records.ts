@@ -0,0 +1,81 @@
+import type { ChunkLocation } from "../extractors/locate.ts";
+import { chunkId, DocumentAttributes } from "../services/document-registry.ts";
+import { VectorRecord } from "./types.ts";
+
+export const SEARCH_FIELDS = [
+  "chunk_text",
+  "source",
+  "chunk_index",
+  "document_id",
+  "page_start",
+  "page_end",
+  "section_path",
+  "author",
+  "work",
+  "tags",
+  "language",
+  "year",
+  "uploaded_at",
+];
+
+/**
+ * Map stored record fields back to the camelCase chunk metadata used by the API.
+ */
+export function fieldsToMetadata(fields: Record<string, any> | undefined) {
+  return {
+    source: fields?.source,
+    chunkIndex: fields?.chunk_index,
+    documentId: fields?.document_id,
+    pageStart: fields?.page_start,
+    pageEnd: fields?.page_end,
+    sectionPath: fields?.section_path,
+    author: fields?.author,
+    work: fields?.work,
+    tags: fields?.tags,
+    language: fields?.language,
+    year: fields?.year,
+    uploadedAt:
+      fields?.uploaded_at !== undefined
+        ? new Date(fields.uploaded_at).toISOString()
+        : undefined,
+  };
+}
+
+/** A chunk's metadata as built at ingestion, in camelCase */
+export interface ChunkMetadata extends ChunkLocation, DocumentAttributes {
+  source: string;
+  chunkIndex: number;
+  documentId: string;
+  /** Epoch milliseconds */
+  uploadedAt: number;
+}
+
+/**
+ * Build the stored record for a chunk. Pinecone rejects null metadata, so
+ * optional location and attribute fields are omitted when unknown.
+ */
+export function chunkRecord(
+  text: string,
+  metadata: ChunkMetadata
+): VectorRecord {
+  return {
+    id: chunkId(metadata.documentId, metadata.chunkIndex),
+    chunk_text: text,
+    source: metadata.source,
+    chunk_index: metadata.chunkIndex,
+    document_id: metadata.documentId,
+    ...(metadata.pageStart !== undefined && {
+      page_start: metadata.pageStart,
+      page_end: metadata.pageEnd,
+    }),
+    ...(metadata.sectionPath?.length && {
+      section_path: metadata.sectionPath,
+    }),
+    ...(metadata.author && { author: metadata.author }),
+    ...(metadata.work && { work: metadata.work }),
+    ...(metadata.tags?.length && { tags: metadata.tags }),
+    ...(metadata.language && { language: metadata.language }),
+    ...(metadata.year !== undefined && { year: metadata.year }),
+    uploaded_at: metadata.uploadedAt,
+  };
+}
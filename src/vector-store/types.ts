@@ -0,0 +1,80 @@
+/**
+ * A stored chunk. Field names are snake_case, as written to the index;
+ * `fieldsToMetadata` maps them back to the API's camelCase metadata.
+ */
+export interface VectorRecord {
+  id: string;
+  chunk_text: string;
+  [field: string]: unknown;
+}
+
+export interface VectorHit {
+  _id: string;
+  _score: number;
+  fields: Record<string, any>;
+}
+
+export interface VectorSearchOptions {
+  /** Candidates retrieved by similarity */
+  topK: number;
+  /** Hits returned after reranking the candidates */
+  topN: number;
+  /** Rerank the candidates inside the store; true unless disabled */
+  rerank?: boolean;
+  /** Only consider records whose stored fields match */
+  filter?: RecordFilter;
+}
+
+export type FilterValue = string | number | boolean;
+
+/**
+ * A bare value means `$eq`. On list fields (like `tags`), `$eq` and `$in`
+ * match when the list contains the value.
+ */
+export type FieldCondition =
+  | FilterValue
+  | {
+      $eq?: FilterValue;
+      $in?: FilterValue[];
+      $gt?: number;
+      $gte?: number;
+      $lt?: number;
+      $lte?: number;
+    };
+
+/** Conditions on stored fields, all of which must hold (Pinecone syntax) */
+export type RecordFilter = Record<string, FieldCondition>;
+
+export interface NamespaceStats {
+  name: string;
+  recordCount: number;
+}
+
+export interface VectorStoreStats {
+  namespaces: NamespaceStats[];
+  totalRecordCount: number;
+  dimension?: number;
+}
+
+/**
+ * Chunk storage with text-in, hits-out search; embedding happens inside the
+ * store. Register new backends in `./index.ts`.
+ */
+export interface VectorStore {
+  name: string;
+  /** Prepare the backing index; called once at startup */
+  init(): Promise<void>;
+  upsert(namespace: string, records: VectorRecord[]): Promise<void>;
+  search(
+    namespace: string,
+    query: string,
+    options: VectorSearchOptions
+  ): Promise<VectorHit[]>;
+  delete(
+    namespace: string,
+    selector: { ids: string[] } | { filter: RecordFilter }
+  ): Promise<void>;
+  /** Returns false when the namespace does not exist */
+  deleteNamespace(namespace: string): Promise<boolean>;
+  stats(): Promise<VectorStoreStats>;
+}
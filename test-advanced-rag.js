@@ -14,6 +14,7 @@ try {
   console.log("Hybrid Search enabled:", config.hybridSearch.enabled);
   console.log("Critique threshold:", config.selfCritique.threshold);
   console.log("Max context documents:", config.synthesis.maxContextDocuments);
+  console.log("LLM provider:", config.llm.provider);
 
   console.log("\n🎯 Advanced RAG is ready to use!");
   console.log("\nTo test it:");
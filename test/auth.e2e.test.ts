@@ -0,0 +1,195 @@
+import { createHash } from "node:crypto";
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  BudgetsResponseSchema,
+  NewApiKeyResponseSchema,
+  QueryResponseSchema,
+} from "../src/api/schemas.ts";
+import { DATA_DIR } from "../src/utils/json-file.ts";
+import { startServer } from "./helpers.ts";
+
+// Read when the modules load, so set before the imports run
+const ADMIN_KEY = vi.hoisted(() => {
+  process.env.AUTH_MODE = "api-key";
+  process.env.ADMIN_API_KEY = "test-admin-secret";
+  return process.env.ADMIN_API_KEY;
+});
+
+let baseUrl: string;
+
+async function call(
+  method: string,
+  route: string,
+  key: string | undefined,
+  body?: unknown
+) {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (key) headers.Authorization = `Bearer ${key}`;
+  const response = await fetch(`${baseUrl}${route}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { response, body: await response.json() };
+}
+
+async function issueKey(request: Record<string, unknown>) {
+  const { response, body } = await call("POST", "/keys", ADMIN_KEY, request);
+  expect(response.status).toBe(201);
+  return NewApiKeyResponseSchema.parse(body);
+}
+
+function query(key: string | undefined, namespace: string) {
+  return call("POST", "/query", key, {
+    query: "virtue",
+    namespace,
+    withAnswer: false,
+  });
+}
+
+// Bound to a profile that has since been removed from the profiles file
+const STALE_KEY = "cg_stale-profile";
+
+beforeAll(async () => {
+  writeFileSync(
+    path.join(DATA_DIR, "api-keys.json"),
+    JSON.stringify([
+      {
+        id: "stale",
+        name: "stale",
+        prefix: STALE_KEY.slice(0, 8),
+        roles: ["read"],
+        namespaces: ["*"],
+        profile: "retired",
+        createdAt: new Date().toISOString(),
+        revokedAt: null,
+        keyHash: createHash("sha256").update(STALE_KEY).digest("hex"),
+      },
+    ])
+  );
+  baseUrl = await startServer();
+});
+
+describe("API key auth", () => {
+  it("requires a valid key", async () => {
+    const missing = await query(undefined, "alpha");
+    expect(missing.response.status).toBe(401);
+    expect(missing.response.headers.get("www-authenticate")).toBe("Bearer");
+    expect((await query("cg_unknown", "alpha")).response.status).toBe(401);
+    expect((await query(ADMIN_KEY, "alpha")).response.status).toBe(200);
+  });
+
+  it("limits keys to their roles and namespaces", async () => {
+    const { secret } = await issueKey({
+      name: "reader",
+      roles: ["read"],
+      namespaces: ["alpha"],
+    });
+
+    expect((await query(secret, "alpha")).response.status).toBe(200);
+    expect((await query(secret, "beta")).response.status).toBe(403);
+    expect((await call("GET", "/keys", secret)).response.status).toBe(403);
+    expect(
+      (await call("DELETE", "/namespaces/alpha", secret)).response.status
+    ).toBe(403);
+  });
+
+  it("scopes budgets to the admin key's namespaces", async () => {
+    await call("PUT", "/budgets/alpha", ADMIN_KEY, { monthlyBudgetUsd: 5 });
+    await call("PUT", "/budgets/beta", ADMIN_KEY, { monthlyBudgetUsd: 5 });
+    const { secret } = await issueKey({
+      name: "alpha admin",
+      roles: ["admin"],
+      namespaces: ["alpha"],
+    });
+
+    const denied = await call("PUT", "/budgets/beta", secret, {
+      monthlyBudgetUsd: 0,
+    });
+    expect(denied.response.status).toBe(403);
+
+    const { budgets } = BudgetsResponseSchema.parse(
+      (await call("GET", "/budgets", secret)).body
+    );
+    expect(budgets.map((budget) => budget.namespace)).toEqual(["alpha"]);
+  });
+
+  it("stops accepting revoked keys", async () => {
+    const { apiKey, secret } = await issueKey({
+      name: "revoked",
+      roles: ["read"],
+      namespaces: ["*"],
+    });
+    expect((await query(secret, "alpha")).response.status).toBe(200);
+
+    await call("DELETE", `/keys/${apiKey.id}`, ADMIN_KEY);
+    expect((await query(secret, "alpha")).response.status).toBe(401);
+  });
+
+  it("rate limits requests per key", async () => {
+    const { secret } = await issueKey({
+      name: "limited",
+      roles: ["read"],
+      namespaces: ["*"],
+      rateLimit: { requestsPerMinute: 2 },
+    });
+
+    expect((await query(secret, "alpha")).response.status).toBe(200);
+    expect((await query(secret, "alpha")).response.status).toBe(200);
+    const limited = await query(secret, "alpha");
+    expect(limited.response.status).toBe(429);
+    expect(Number(limited.response.headers.get("retry-after"))).toBeGreaterThan(
+      0
+    );
+  });
+});
+
+describe("config profiles of API keys", () => {
+  it("rejects queries through a key bound to a removed profile", async () => {
+    const stale = await query(STALE_KEY, "alpha");
+    expect(stale.response.status).toBe(400);
+    expect(stale.body.error).toMatch(/unknown config profile: retired/);
+
+    const named = await call("POST", "/query", STALE_KEY, {
+      query: "virtue",
+      namespace: "alpha",
+      withAnswer: false,
+      profile: "fast",
+    });
+    expect(named.response.status).toBe(200);
+  });
+
+  it("caps costly overrides for keys without the admin role", async () => {
+    const { secret } = await issueKey({
+      name: "thorough reader",
+      roles: ["read"],
+      namespaces: ["*"],
+      profile: "thorough",
+    });
+    const overrides = {
+      query: "virtue",
+      namespace: "alpha",
+      withAnswer: false,
+      config: {
+        performance: { maxRetries: 10 },
+        selfCritique: { maxImprovementAttempts: 1 },
+      },
+    };
+
+    const capped = QueryResponseSchema.parse(
+      (await call("POST", "/query", secret, overrides)).body
+    );
+    expect(capped.profile).toBe("thorough");
+    expect(capped.config.performance.maxRetries).toBe(3);
+    expect(capped.config.selfCritique.maxImprovementAttempts).toBe(1);
+
+    const admin = QueryResponseSchema.parse(
+      (await call("POST", "/query", ADMIN_KEY, overrides)).body
+    );
+    expect(admin.config.performance.maxRetries).toBe(10);
+  });
+});
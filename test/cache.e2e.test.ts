@@ -0,0 +1,68 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  AdvancedQueryResponseSchema,
+  DeletedResponseSchema,
+  DocumentsResponseSchema,
+} from "../src/api/schemas.ts";
+import { CognoClient } from "../src/client/index.ts";
+import { ingestText, startServer } from "./helpers.ts";
+
+let baseUrl: string;
+let client: CognoClient;
+
+async function ask() {
+  const response = AdvancedQueryResponseSchema.parse(
+    await client.queryAdvanced({
+      query: "What is courage?",
+      namespace: "cache",
+      config: { performance: { cacheEnabled: true } },
+    })
+  );
+  if (!("cache" in response)) throw new Error("Expected matches");
+  return response.cache;
+}
+
+beforeAll(async () => {
+  baseUrl = await startServer();
+  client = new CognoClient({ baseUrl });
+  await ingestText(
+    client,
+    { "courage.txt": "Courage moderates fear." },
+    { namespace: "cache" }
+  );
+});
+
+describe("response cache", () => {
+  it("answers a repeated question from the cache", async () => {
+    const first = await ask();
+    expect(first.enabled).toBe(true);
+    expect(first.answer).toEqual({ hits: 0, misses: 1 });
+
+    const repeat = await ask();
+    expect(repeat.answer).toEqual({ hits: 1, misses: 0 });
+  });
+
+  it("invalidates a namespace when its documents change", async () => {
+    await ask();
+    await ingestText(
+      client,
+      { "temperance.txt": "Temperance moderates pleasure." },
+      { namespace: "cache" }
+    );
+    expect((await ask()).answer).toEqual({ hits: 0, misses: 1 });
+    expect((await ask()).answer).toEqual({ hits: 1, misses: 0 });
+
+    const { documents } = DocumentsResponseSchema.parse(
+      await (await fetch(`${baseUrl}/documents?namespace=cache`)).json()
+    );
+    const temperance = documents.find(
+      (document) => document.filename === "temperance.txt"
+    );
+    const deleted = await fetch(
+      `${baseUrl}/documents/${temperance?.id}?namespace=cache`,
+      { method: "DELETE" }
+    );
+    DeletedResponseSchema.parse(await deleted.json());
+    expect((await ask()).answer).toEqual({ hits: 0, misses: 1 });
+  });
+});
@@ -0,0 +1,45 @@
+import { mkdtempSync } from "node:fs";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { describe, expect, it } from "vitest";
+import {
+  CacheBackend,
+  createFileCache,
+  createMemoryCache,
+} from "../src/cache/index.ts";
+import { DATA_DIR } from "../src/utils/json-file.ts";
+
+const backends: [string, () => CacheBackend][] = [
+  ["memory", () => createMemoryCache({ maxEntries: 2 })],
+  [
+    "file",
+    () => createFileCache({ dir: mkdtempSync(path.join(DATA_DIR, "cache-")) }),
+  ],
+];
+
+describe.each(backends)("%s cache", (_name, create) => {
+  it("expires entries after their TTL", async () => {
+    const cache = create();
+    await cache.set("short", "value", 20);
+    await cache.set("forever", { nested: [1] });
+
+    expect(await cache.get("short")).toBe("value");
+    await sleep(40);
+    expect(await cache.get("short")).toBeUndefined();
+    expect(await cache.get("forever")).toEqual({ nested: [1] });
+  });
+});
+
+describe("memory cache", () => {
+  it("evicts the least recently used entry", async () => {
+    const cache = createMemoryCache({ maxEntries: 2 });
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+    await cache.get("a");
+    await cache.set("c", 3);
+
+    expect(await cache.get("a")).toBe(1);
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBe(3);
+  });
+});
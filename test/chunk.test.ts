@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { chunkTextWithOffsets, CHUNK_STRATEGIES } from "../src/utils/chunk.ts";
+import { countTokens } from "../src/utils/tokenizer.ts";
+
+const PARAGRAPHS = [
+  "Virtue is a habit of the good. Courage moderates fear and daring. Temperance moderates the desire for pleasure.",
+  "Justice renders to each what is due. Prudence is right reason applied to action, and it directs the other virtues.",
+  "The theological virtues are faith, hope and charity. They have God as their object and are infused rather than acquired.",
+];
+const TEXT = PARAGRAPHS.join("\n\n");
+
+const collapse = (text: string) => text.replace(/\s+/g, " ").trim();
+
+describe("chunkTextWithOffsets", () => {
+  it.each(CHUNK_STRATEGIES)(
+    "%s chunks map back to their offsets in the original text",
+    (strategy) => {
+      const chunks = chunkTextWithOffsets(TEXT, {
+        strategy,
+        chunkSize: strategy === "token" ? 30 : 120,
+        chunkOverlap: strategy === "token" ? 5 : 20,
+      });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(collapse(TEXT.slice(chunk.start, chunk.end))).toBe(
+          collapse(chunk.text)
+        );
+      }
+      expect(chunks[0].start).toBe(0);
+      expect(chunks[chunks.length - 1].end).toBe(TEXT.length);
+    }
+  );
+
+  it("keeps words chunks within chunkSize characters", () => {
+    const chunks = chunkTextWithOffsets(TEXT, {
+      strategy: "words",
+      chunkSize: 80,
+      chunkOverlap: 0,
+    });
+
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(80);
+    }
+    expect(chunks.map((chunk) => chunk.text).join(" ")).toBe(collapse(TEXT));
+  });
+
+  it("carries trailing words into the next chunk as overlap", () => {
+    const chunks = chunkTextWithOffsets(TEXT, {
+      strategy: "words",
+      chunkSize: 80,
+      chunkOverlap: 20,
+    });
+
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+    }
+  });
+
+  it("ends sentence chunks on sentence boundaries", () => {
+    const chunks = chunkTextWithOffsets(TEXT, {
+      strategy: "sentence",
+      chunkSize: 120,
+      chunkOverlap: 0,
+    });
+
+    for (const chunk of chunks) {
+      expect(chunk.text).toMatch(/[.!?]$/);
+      expect(chunk.text.length).toBeLessThanOrEqual(120);
+    }
+  });
+
+  it("splits recursive chunks on paragraphs first", () => {
+    const chunks = chunkTextWithOffsets(TEXT, {
+      strategy: "recursive",
+      chunkSize: 130,
+      chunkOverlap: 0,
+    });
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual(PARAGRAPHS);
+  });
+
+  it("never spans a recursive chunk across a boundary", () => {
+    const boundary = TEXT.indexOf("Justice");
+    const chunks = chunkTextWithOffsets(TEXT, {
+      strategy: "recursive",
+      chunkSize: 1000,
+      chunkOverlap: 100,
+      boundaries: [boundary],
+    });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].end).toBeLessThanOrEqual(boundary);
+    expect(chunks[1].start).toBe(boundary);
+  });
+
+  it("measures token chunks in embedding model tokens", () => {
+    const chunks = chunkTextWithOffsets(TEXT, {
+      strategy: "token",
+      chunkSize: 25,
+      chunkOverlap: 0,
+    });
+
+    for (const chunk of chunks) {
+      expect(chunk.size).toBeLessThanOrEqual(25);
+      // Sizes count each word with its leading space; the first has none
+      expect(
+        Math.abs(countTokens(chunk.text) - chunk.size)
+      ).toBeLessThanOrEqual(1);
+    }
+  });
+});
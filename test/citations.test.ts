@@ -0,0 +1,101 @@
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { extractClaims, verifyQuote } from "../src/services/citations.ts";
+import { DATA_DIR } from "../src/utils/json-file.ts";
+import { fieldsToMetadata } from "../src/vector-store/index.ts";
+
+const CHUNK =
+  "Whatever is in motion must be put in motion by another. If that by which it is put in motion be itself put in motion, then this also must needs be put in motion by another.";
+
+describe("verifyQuote", () => {
+  it("finds verbatim quotes regardless of case and whitespace", () => {
+    expect(verifyQuote("whatever is in  motion", CHUNK)).toBe("exact");
+    expect(verifyQuote(`"must be put in motion by another."`, CHUNK)).toBe(
+      "exact"
+    );
+  });
+
+  it("requires every fragment of an elided quote", () => {
+    expect(
+      verifyQuote("Whatever is in motion ... needs be put in motion", CHUNK)
+    ).toBe("exact");
+    expect(
+      verifyQuote("Whatever is in motion … by a first mover", CHUNK)
+    ).not.toBe("exact");
+  });
+
+  it("normalizes typographic quotes and dashes", () => {
+    expect(
+      verifyQuote("it’s — the “first” way", 'It\'s - the "first" way')
+    ).toBe("exact");
+  });
+
+  it("accepts near-verbatim quotes as fuzzy matches", () => {
+    expect(
+      verifyQuote(
+        "whatever is in motion must be put in motion by an other",
+        CHUNK
+      )
+    ).toBe("fuzzy");
+  });
+
+  it("rejects quotes the chunk does not contain", () => {
+    expect(verifyQuote("the unmoved mover is pure act", CHUNK)).toBe("none");
+    expect(verifyQuote("...", CHUNK)).toBe("none");
+    expect(verifyQuote("", CHUNK)).toBe("none");
+  });
+});
+
+describe("extractClaims", () => {
+  beforeAll(() => {
+    // Read by the mock provider when it is first created
+    const script = path.join(DATA_DIR, "citations-mock.json");
+    writeFileSync(
+      script,
+      JSON.stringify([
+        {
+          stage: "citations",
+          response: {
+            claims: [
+              {
+                text: "Things in motion are moved by another.",
+                citations: [
+                  { document: 1, quote: "must be put in motion by another" },
+                  { document: 1, quote: "a first mover, moved by none" },
+                  { document: 7, quote: "out of range" },
+                ],
+              },
+              { text: "  ", citations: [] },
+            ],
+          },
+        },
+      ])
+    );
+    process.env.LLM_MOCK_SCRIPT = script;
+  });
+
+  it("verifies each quote and drops citations outside the context", async () => {
+    const { claims, droppedCitations } = await extractClaims(
+      "What moves things?",
+      "Things in motion are moved by another.",
+      [
+        {
+          text: CHUNK,
+          metadata: fieldsToMetadata({ source: "summa.txt", chunk_index: 0 }),
+        },
+      ]
+    );
+
+    expect(droppedCitations).toBe(1);
+    expect(claims).toHaveLength(1);
+    expect(claims[0].supported).toBe(true);
+    expect(
+      claims[0].citations.map(({ match, verified }) => ({ match, verified }))
+    ).toEqual([
+      { match: "exact", verified: true },
+      { match: "none", verified: false },
+    ]);
+    expect(claims[0].citations[0].source).toBe("summa.txt");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { CognoAPIError, CognoClient } from "../src/client/index.ts";
+
+/** A fetch answering every request with `response`, recording the requests */
+function fakeFetch(response: () => Response) {
+  const requests: Request[] = [];
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    requests.push(new Request(input, init));
+    return response();
+  };
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("CognoClient", () => {
+  it("sends the API key and JSON body to the base URL", async () => {
+    const { fetch, requests } = fakeFetch(() =>
+      json({ ok: true, matches: [] })
+    );
+    const client = new CognoClient({
+      baseUrl: "http://cogno.test/",
+      apiKey: "cg_secret",
+      fetch,
+    });
+
+    await client.query({ query: "virtue", namespace: "aquinas" });
+
+    const [request] = requests;
+    expect(request.method).toBe("POST");
+    expect(request.url).toBe("http://cogno.test/query");
+    expect(request.headers.get("authorization")).toBe("Bearer cg_secret");
+    expect(await request.json()).toEqual({
+      query: "virtue",
+      namespace: "aquinas",
+    });
+  });
+
+  it("throws the server's error body with the status", async () => {
+    const { fetch } = fakeFetch(() =>
+      json({ error: "Invalid parameters" }, 400)
+    );
+    const client = new CognoClient({ baseUrl: "http://cogno.test", fetch });
+
+    const error = await client.query({ query: "" }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CognoAPIError);
+    expect(error).toMatchObject({
+      status: 400,
+      message: "Invalid parameters",
+      body: { error: "Invalid parameters" },
+    });
+
+    const { fetch: failing } = fakeFetch(
+      () => new Response("Bad gateway", { status: 502 })
+    );
+    await expect(
+      new CognoClient({ baseUrl: "http://cogno.test", fetch: failing }).getJob(
+        "job 1"
+      )
+    ).rejects.toMatchObject({ status: 502, body: "Bad gateway" });
+  });
+
+  it("uploads files with options as form fields", async () => {
+    const { fetch, requests } = fakeFetch(() =>
+      json({ ok: true, jobId: "j1" }, 202)
+    );
+    const client = new CognoClient({ baseUrl: "http://cogno.test", fetch });
+
+    await client.upload(
+      [{ filename: "notes.txt", content: new TextEncoder().encode("Hi") }],
+      { namespace: "notes", chunkSize: 400, metadata: { author: "Aquinas" } }
+    );
+
+    const form = await requests[0].formData();
+    const file = form.get("files") as File;
+    expect(file.name).toBe("notes.txt");
+    expect(await file.text()).toBe("Hi");
+    expect(form.get("namespace")).toBe("notes");
+    expect(form.get("chunkSize")).toBe("400");
+    expect(form.get("metadata")).toBe('{"author":"Aquinas"}');
+  });
+
+  it("parses events split across chunks of the stream", async () => {
+    const body =
+      'event: sources\ndata: {"matches":[]}\n\n' +
+      'event: token\ndata: {"token":"Hello"}\n\n' +
+      'event: error\ndata: {"error":"Stopped"}\n\n';
+    const encoded = new TextEncoder().encode(body);
+    const { fetch, requests } = fakeFetch(
+      () =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              // Seven bytes at a time, so events and lines straddle chunks
+              for (let i = 0; i < encoded.length; i += 7) {
+                controller.enqueue(encoded.slice(i, i + 7));
+              }
+              controller.close();
+            },
+          }),
+          { headers: { "Content-Type": "text/event-stream" } }
+        )
+    );
+    const client = new CognoClient({ baseUrl: "http://cogno.test", fetch });
+
+    const events = [];
+    for await (const event of client.queryStream({ query: "virtue" })) {
+      events.push(event);
+    }
+
+    expect(requests[0].headers.get("accept")).toBe("text/event-stream");
+    expect(events).toEqual([
+      { event: "sources", data: { matches: [] } },
+      { event: "token", data: { token: "Hello" } },
+      { event: "error", data: { error: "Stopped" } },
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { getAdvancedRAGConfig } from "../src/config/advanced-rag.config.js";
+import { runEval } from "../src/eval/run.ts";
+import { ingestFile } from "../src/services/ingestion.ts";
+
+const FILES = {
+  "motion.txt": "The first way is from motion: whatever moves is moved.",
+  "cause.txt": "The second way is from efficient cause: nothing causes itself.",
+  "contingency.txt":
+    "The third way is from contingency: not everything can be possible.",
+};
+
+const NAMESPACE = "eval";
+
+beforeAll(async () => {
+  for (const [filename, text] of Object.entries(FILES)) {
+    await ingestFile(
+      Buffer.from(text),
+      filename,
+      "text/plain",
+      { namespace: NAMESPACE, chunkSize: 1200, chunkOverlap: 0 },
+      { chunksProcessed: 0, chunksTotal: 0 },
+      () => {}
+    );
+  }
+});
+
+describe("runEval", () => {
+  it("scores retrieval beyond the reranked documents", async () => {
+    const config = structuredClone(getAdvancedRAGConfig());
+    config.reranking.topN = 1;
+
+    const report = await runEval(
+      [
+        {
+          question: "What is the first way, from motion?",
+          expectedSources: [{ source: "cause.txt" }],
+        },
+      ],
+      { name: "topN", k: 3, namespace: NAMESPACE, config }
+    );
+
+    const [result] = report.cases;
+    expect(result.retrieved.map((source) => source.source)).toEqual(
+      expect.arrayContaining(Object.keys(FILES))
+    );
+    expect(result.retrieved[0].source).toBe("motion.txt");
+    expect(result.metrics.recall).toBe(1);
+    expect(result.metrics.reciprocalRank).toBeGreaterThan(0);
+  });
+
+  it("leaves faithfulness unscored without an answer", async () => {
+    const config = structuredClone(getAdvancedRAGConfig());
+    config.synthesis.enabled = false;
+
+    const report = await runEval(
+      [
+        {
+          question: "What is motion?",
+          expectedSources: [{ source: "motion.txt" }],
+        },
+      ],
+      { name: "retrieval", k: 3, namespace: NAMESPACE, config }
+    );
+
+    expect(report.cases[0].answer).toBe("");
+    expect(report.cases[0].metrics.faithfulness).toBeNull();
+    expect(report.summary).toMatchObject({
+      faithfulness: null,
+      faithfulnessSkipped: 1,
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { MetadataFilterSchema } from "../src/api/schemas.ts";
+import { matchesFilter, toRecordFilter } from "../src/vector-store/index.ts";
+
+describe("MetadataFilterSchema", () => {
+  it("accepts bare values and operator conditions", () => {
+    const filter = {
+      author: "Aquinas",
+      tags: { $in: ["metaphysics", "ethics"] },
+      year: { $gte: 1250, $lt: 1275 },
+      uploadedAt: { $gte: "2024-01-01" },
+    };
+    expect(MetadataFilterSchema.parse(filter)).toEqual(filter);
+  });
+
+  it.each([
+    ["unknown fields", { title: "Summa" }],
+    ["unknown operators", { year: { $ne: 1270 } }],
+    ["empty conditions", { year: {} }],
+    ["empty $in lists", { tags: { $in: [] } }],
+    ["string bounds outside uploadedAt", { year: { $gt: "1250" } }],
+    ["invalid dates", { uploadedAt: { $lt: "not a date" } }],
+  ])("rejects %s", (_, filter) => {
+    expect(MetadataFilterSchema.safeParse(filter).success).toBe(false);
+  });
+});
+
+describe("toRecordFilter", () => {
+  it("maps API fields to stored field names", () => {
+    expect(
+      toRecordFilter({ documentId: "abc", year: { $gt: 1200 }, tags: "x" })
+    ).toEqual({ document_id: "abc", year: { $gt: 1200 }, tags: "x" });
+  });
+
+  it("converts uploadedAt dates to epoch milliseconds", () => {
+    expect(
+      toRecordFilter({
+        uploadedAt: { $gte: "2024-01-01T00:00:00Z", $lt: 1735689600000 },
+      })
+    ).toEqual({
+      uploaded_at: { $gte: Date.UTC(2024, 0, 1), $lt: 1735689600000 },
+    });
+  });
+});
+
+describe("matchesFilter", () => {
+  const fields = {
+    source: "summa.pdf",
+    author: "Aquinas",
+    tags: ["metaphysics", "theology"],
+    year: 1270,
+  };
+
+  it("treats a bare value as $eq", () => {
+    expect(matchesFilter(fields, { author: "Aquinas" })).toBe(true);
+    expect(matchesFilter(fields, { author: "Augustine" })).toBe(false);
+  });
+
+  it("matches list fields that contain the value", () => {
+    expect(matchesFilter(fields, { tags: "theology" })).toBe(true);
+    expect(
+      matchesFilter(fields, { tags: { $in: ["ethics", "theology"] } })
+    ).toBe(true);
+    expect(matchesFilter(fields, { tags: { $eq: "ethics" } })).toBe(false);
+  });
+
+  it("applies every range bound", () => {
+    expect(matchesFilter(fields, { year: { $gte: 1270, $lt: 1275 } })).toBe(
+      true
+    );
+    expect(matchesFilter(fields, { year: { $gt: 1270 } })).toBe(false);
+    expect(matchesFilter({ year: "1270" }, { year: { $gte: 1200 } })).toBe(
+      false
+    );
+  });
+
+  it("requires every field to match", () => {
+    expect(
+      matchesFilter(fields, { author: "Aquinas", year: { $lt: 1260 } })
+    ).toBe(false);
+    expect(matchesFilter(fields, { work: "Summa" })).toBe(false);
+    expect(matchesFilter(fields, {})).toBe(true);
+  });
+});
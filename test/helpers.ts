@@ -0,0 +1,59 @@
+import { createServer } from "node:net";
+import { setTimeout as sleep } from "node:timers/promises";
+import { JobResponseSchema, UploadResponseSchema } from "../src/api/schemas.ts";
+import { CognoClient, UploadFile, UploadRequest } from "../src/client/index.ts";
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as { port: number };
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+/**
+ * Start the server in this test file's process on a free port, once the
+ * environment is set up, and wait until it answers. Returns its base URL.
+ */
+export async function startServer(): Promise<string> {
+  process.env.PORT = String(await freePort());
+  const baseUrl = `http://localhost:${process.env.PORT}`;
+  await import("../src/server.ts");
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      if ((await fetch(`${baseUrl}/health`)).ok) return baseUrl;
+    } catch {
+      if (attempt >= 100) throw new Error("Server did not start");
+    }
+    await sleep(100);
+  }
+}
+
+/**
+ * Upload text files and wait for their ingestion job to finish.
+ */
+export async function ingestText(
+  client: CognoClient,
+  files: Record<string, string>,
+  options: UploadRequest = {}
+): Promise<void> {
+  const uploads: UploadFile[] = Object.entries(files).map(
+    ([filename, text]) => ({
+      filename,
+      content: new TextEncoder().encode(text),
+    })
+  );
+  const upload = UploadResponseSchema.parse(
+    await client.upload(uploads, options)
+  );
+
+  for (;;) {
+    const { job } = JobResponseSchema.parse(await client.getJob(upload.jobId));
+    if (job.status === "completed") return;
+    if (job.status === "failed") {
+      throw new Error(`Ingestion failed: ${JSON.stringify(job.files)}`);
+    }
+    await sleep(100);
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { defaultAdvancedRAGConfig } from "../src/config/advanced-rag.config.js";
+import { fuseHits } from "../src/services/hybrid-search.ts";
+import {
+  addKeywordDocuments,
+  keywordSearch,
+  removeKeywordDocuments,
+  tokenize,
+} from "../src/services/keyword-index.ts";
+
+const hybrid = defaultAdvancedRAGConfig.hybridSearch;
+
+describe("tokenize", () => {
+  it("lowercases, folds accents and ligatures and drops stopwords", () => {
+    expect(tokenize("The Quinque Viæ of Aquinas")).toEqual([
+      "quinque",
+      "viae",
+      "aquinas",
+    ]);
+    expect(tokenize("Actus purus")).toEqual(tokenize("actus púrus"));
+  });
+});
+
+describe("keywordSearch", () => {
+  const namespace = "bm25";
+  const documents = [
+    { id: "a", text: "actus purus is pure act without potency" },
+    { id: "b", text: "potency and act divide every finite being" },
+    { id: "c", text: "the five ways prove that god exists" },
+    { id: "d", text: "act act act, said nothing about potency at all" },
+  ];
+
+  it("ranks by BM25, favouring rarer matching terms", async () => {
+    await addKeywordDocuments(
+      namespace,
+      documents.map((doc) => ({
+        ...doc,
+        fields: { source: `${doc.id}.txt`, year: 1270 },
+      }))
+    );
+
+    const hits = await keywordSearch(namespace, "actus purus", 10);
+    expect(hits.map((hit) => hit.id)).toEqual(["a"]);
+
+    const potency = await keywordSearch(namespace, "pure potency", 10);
+    expect(potency[0].id).toBe("a");
+    expect(potency.map((hit) => hit.id).sort()).toEqual(["a", "b", "d"]);
+  });
+
+  it("saturates term frequency", async () => {
+    const hits = await keywordSearch(namespace, "act", 10);
+    const scores = Object.fromEntries(hits.map((hit) => [hit.id, hit.score]));
+
+    // Three occurrences score higher than one, but not even twice as high
+    expect(scores.d).toBeGreaterThan(scores.b);
+    expect(scores.d).toBeLessThan(scores.b * 2);
+  });
+
+  it("applies the record filter and topK", async () => {
+    expect(
+      await keywordSearch(namespace, "potency", 10, { source: "b.txt" })
+    ).toEqual([expect.objectContaining({ id: "b" })]);
+    expect(await keywordSearch(namespace, "potency", 1)).toHaveLength(1);
+  });
+
+  it("forgets removed documents", async () => {
+    await removeKeywordDocuments(namespace, ["a"]);
+    expect(await keywordSearch(namespace, "actus purus", 10)).toEqual([]);
+  });
+});
+
+describe("fuseHits", () => {
+  const vectorHits = [
+    { _id: "x", _score: 0.9, fields: { chunk_text: "x" } },
+    { _id: "y", _score: 0.8, fields: { chunk_text: "y" } },
+    { _id: "z", _score: 0.1, fields: { chunk_text: "z" } },
+  ];
+  const keywordHits = [
+    { id: "z", score: 12, fields: { chunk_text: "z" } },
+    { id: "y", score: 6, fields: { chunk_text: "y" } },
+  ];
+
+  it("sums weighted reciprocal ranks from both lists", () => {
+    const fused = fuseHits(vectorHits, keywordHits, hybrid);
+    const k = hybrid.rrfK;
+
+    expect(fused.map((hit) => hit._id)).toEqual(["y", "z", "x"]);
+    const y = fused.find((hit) => hit._id === "y")!;
+    expect(y._score).toBeCloseTo(
+      hybrid.vectorWeight / (k + 2) + hybrid.keywordWeight / (k + 2)
+    );
+    expect(y).toMatchObject({ vectorScore: 0.8, keywordScore: 6 });
+  });
+
+  it("keeps hits found by only one side", () => {
+    const fused = fuseHits(vectorHits, [], hybrid);
+    expect(fused.map((hit) => hit._id)).toEqual(["x", "y", "z"]);
+    expect(fused[0].keywordScore).toBeUndefined();
+  });
+
+  it("can fuse min-max normalized scores instead of ranks", () => {
+    const fused = fuseHits(vectorHits, keywordHits, {
+      ...hybrid,
+      reciprocalRankFusion: false,
+      vectorWeight: 0.5,
+      keywordWeight: 0.5,
+    });
+    const scores = Object.fromEntries(
+      fused.map((hit) => [hit._id, hit._score])
+    );
+
+    expect(scores.x).toBeCloseTo(0.5);
+    expect(scores.y).toBeCloseTo(0.5 * (0.7 / 0.8));
+    expect(scores.z).toBeCloseTo(0.5);
+  });
+});
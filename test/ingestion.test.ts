@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { listDocuments } from "../src/services/document-registry.ts";
+import { ingestFile, IngestionOptions } from "../src/services/ingestion.ts";
+import { keywordSearch } from "../src/services/keyword-index.ts";
+
+const TEXT = Array.from(
+  { length: 12 },
+  (_, i) => `Article ${i + 1}. Whether the soul is the form of the body.`
+).join(" ");
+
+function ingest(text: string, options: Partial<IngestionOptions> = {}) {
+  return ingestFile(
+    Buffer.from(text),
+    "question.txt",
+    "text/plain",
+    {
+      namespace: "ingestion",
+      chunkSize: 300,
+      chunkOverlap: 0,
+      chunkStrategy: "words",
+      ...options,
+    },
+    { chunksProcessed: 0, chunksTotal: 0 },
+    () => {}
+  );
+}
+
+describe("ingestFile", () => {
+  it("skips unchanged files and re-chunks when chunking changes", async () => {
+    const first = await ingest(TEXT);
+    if (first.status !== "indexed") throw new Error("Expected indexing");
+
+    expect((await ingest(TEXT)).status).toBe("unchanged");
+
+    const rechunked = await ingest(TEXT, { chunkSize: 200 });
+    if (rechunked.status !== "indexed") throw new Error("Expected indexing");
+    expect(rechunked.document.id).toBe(first.document.id);
+    expect(rechunked.document.chunkCount).toBeGreaterThan(
+      first.document.chunkCount
+    );
+    expect(rechunked.document.chunking).toMatchObject({ chunkSize: 200 });
+  });
+
+  it("keeps same-named files unless replacement is requested", async () => {
+    const kept = await ingest("Article 1. Whether angels have bodies.");
+    expect(kept).toMatchObject({ status: "indexed", replaced: [] });
+    expect(await listDocuments("ingestion")).toHaveLength(2);
+
+    const replacing = await ingest("Article 1. Whether God is simple.", {
+      replaceByFilename: true,
+    });
+    if (replacing.status !== "indexed") throw new Error("Expected indexing");
+
+    expect(replacing.replaced).toHaveLength(2);
+    expect(await listDocuments("ingestion")).toEqual([replacing.document]);
+    expect(await keywordSearch("ingestion", "angels", 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  DATA_DIR,
+  readJsonFile,
+  withFileLock,
+  writeJsonFile,
+} from "../src/utils/json-file.ts";
+
+describe("writeJsonFile", () => {
+  it("applies concurrent writes to one file in call order", async () => {
+    const dir = path.join(DATA_DIR, "json-file");
+    const file = path.join(dir, "counter.json");
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, n) => writeJsonFile(file, { n }))
+    );
+
+    expect(await readJsonFile(file, null)).toEqual({ n: 19 });
+    expect(await readdir(dir)).toEqual(["counter.json"]);
+  });
+});
+
+describe("withFileLock", () => {
+  it("keeps running queued tasks after one fails", async () => {
+    const order: string[] = [];
+    const failed = withFileLock("lock-test", async () => {
+      order.push("first");
+      throw new Error("disk full");
+    });
+    const second = withFileLock("lock-test", async () => {
+      order.push("second");
+      return 2;
+    });
+
+    await expect(failed).rejects.toThrow("disk full");
+    await expect(second).resolves.toBe(2);
+    expect(order).toEqual(["first", "second"]);
+  });
+});
@@ -0,0 +1,63 @@
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { createUsageReport, streamChat } from "../src/llm/index.ts";
+import { DATA_DIR } from "../src/utils/json-file.ts";
+import { countTokens } from "../src/utils/tokenizer.ts";
+
+function ask(question: string) {
+  return { messages: [{ role: "user" as const, content: question }] };
+}
+
+describe("streamChat usage", () => {
+  beforeAll(() => {
+    const script = path.join(DATA_DIR, "llm-usage-mock.json");
+    writeFileSync(
+      script,
+      JSON.stringify([
+        { stage: "synthesis", match: "fail", error: "connection reset" },
+      ])
+    );
+    process.env.LLM_MOCK_SCRIPT = script;
+  });
+
+  it("records a completed stream", async () => {
+    const usage = createUsageReport();
+    let answer = "";
+    const stream = streamChat("synthesis", ask("hi"), undefined, usage);
+    for await (const token of stream) {
+      answer += token;
+    }
+
+    expect(usage.calls).toHaveLength(1);
+    expect(usage.calls[0]).toMatchObject({
+      stage: "synthesis",
+      completionTokens: countTokens(answer),
+      estimated: true,
+    });
+  });
+
+  it("records the tokens received before the consumer stops", async () => {
+    const usage = createUsageReport();
+    let received = "";
+    const stream = streamChat("synthesis", ask("hi"), undefined, usage);
+    for await (const token of stream) {
+      received += token;
+      if (received.length > 10) break;
+    }
+
+    expect(usage.calls).toHaveLength(1);
+    expect(usage.calls[0].completionTokens).toBe(countTokens(received));
+  });
+
+  it("records a stream that fails", async () => {
+    const usage = createUsageReport();
+    const stream = streamChat("synthesis", ask("fail"), undefined, usage);
+
+    await expect(async () => {
+      for await (const _ of stream);
+    }).rejects.toThrow("connection reset");
+    expect(usage.calls).toHaveLength(1);
+    expect(usage.calls[0].completionTokens).toBe(0);
+  });
+});
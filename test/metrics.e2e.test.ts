@@ -0,0 +1,97 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { ReadyResponseSchema } from "../src/api/schemas.ts";
+import { CognoClient } from "../src/client/index.ts";
+import { getChatProvider } from "../src/llm/index.ts";
+import { createHistogram, renderMetrics } from "../src/utils/metrics.ts";
+import { ingestText, startServer } from "./helpers.ts";
+
+let baseUrl: string;
+
+async function metrics() {
+  const response = await fetch(`${baseUrl}/metrics`);
+  expect(response.headers.get("content-type")).toMatch(/^text\/plain/);
+  return response.text();
+}
+
+// The value of one series, or undefined when it has not been recorded
+function sample(text: string, series: string): number | undefined {
+  const line = text.split("\n").find((l) => l.startsWith(`${series} `));
+  return line === undefined ? undefined : Number(line.split(" ")[1]);
+}
+
+beforeAll(async () => {
+  baseUrl = await startServer();
+  await ingestText(
+    new CognoClient({ baseUrl }),
+    { "courage.txt": "Courage moderates fear." },
+    { namespace: "metrics" }
+  );
+});
+
+describe("/metrics", () => {
+  it("counts requests, stages and LLM calls", async () => {
+    const series =
+      'cogno_http_requests_total{method="POST",route="/query/advanced",status="200"}';
+    const before = sample(await metrics(), series) ?? 0;
+
+    await new CognoClient({ baseUrl }).queryAdvanced({
+      query: "What is courage?",
+      namespace: "metrics",
+    });
+
+    const text = await metrics();
+    expect(sample(text, series)).toBe(before + 1);
+    expect(text).toContain("# TYPE cogno_stage_duration_seconds histogram");
+    expect(
+      sample(
+        text,
+        'cogno_stage_duration_seconds_count{stage="synthesis",outcome="ok"}'
+      )
+    ).toBeGreaterThan(0);
+    expect(text).toMatch(/^cogno_llm_calls_total\{stage="synthesis",/m);
+    expect(sample(text, "cogno_chunks_ingested_total")).toBeGreaterThan(0);
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    const histogram = createHistogram({
+      name: "test_latency_seconds",
+      help: "Test latencies",
+      labelNames: ["route"],
+      buckets: [0.1, 1],
+    });
+    histogram.observe({ route: "/a" }, 0.05);
+    histogram.observe({ route: "/a" }, 0.5);
+    histogram.observe({ route: "/a" }, 5);
+
+    expect(renderMetrics()).toContain(
+      [
+        'test_latency_seconds_bucket{route="/a",le="0.1"} 1',
+        'test_latency_seconds_bucket{route="/a",le="1"} 2',
+        'test_latency_seconds_bucket{route="/a",le="+Inf"} 3',
+        'test_latency_seconds_sum{route="/a"} 5.55',
+        'test_latency_seconds_count{route="/a"} 3',
+      ].join("\n")
+    );
+  });
+});
+
+describe("/ready", () => {
+  it("reports each dependency and fails when one is down", async () => {
+    const ready = await fetch(`${baseUrl}/ready`);
+    expect(ready.status).toBe(200);
+    const { checks } = ReadyResponseSchema.parse(await ready.json());
+    expect(checks.map((check) => [check.name, check.ok])).toEqual([
+      ["vectorStore", true],
+      ["llm", true],
+    ]);
+
+    vi.spyOn(getChatProvider(), "ping").mockRejectedValueOnce(
+      new Error("LLM unreachable")
+    );
+    const down = await fetch(`${baseUrl}/ready`);
+    expect(down.status).toBe(503);
+    expect(
+      ReadyResponseSchema.parse(await down.json()).checks[1]
+    ).toMatchObject({ name: "llm", ok: false, error: "LLM unreachable" });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  getAdvancedRAGConfig,
+  RequestConfigOverrideSchema,
+} from "../src/config/advanced-rag.config.js";
+import { profileNames, resolveConfig } from "../src/config/profiles.ts";
+
+describe("resolveConfig", () => {
+  it("layers the profile, then the request's overrides, over the defaults", () => {
+    const defaults = getAdvancedRAGConfig();
+    const config = resolveConfig({
+      profile: "fast",
+      config: { reranking: { topN: 3 } },
+    });
+
+    expect(config.queryExpansion.enabled).toBe(false);
+    expect(config.synthesis.maxContextDocuments).toBe(4);
+    expect(config.reranking.topN).toBe(3);
+    expect(config.reranking.provider).toBe(defaults.reranking.provider);
+    expect(getAdvancedRAGConfig()).toEqual(defaults);
+  });
+
+  it("ships the documented profiles", () => {
+    expect(profileNames()).toEqual([
+      "fast",
+      "no-llm-retrieval-only",
+      "thorough",
+    ]);
+    expect(
+      resolveConfig({ profile: "no-llm-retrieval-only" }).synthesis.enabled
+    ).toBe(false);
+  });
+
+  it("rejects unknown profiles", () => {
+    expect(() => resolveConfig({ profile: "cheap" })).toThrow(
+      "Unknown config profile: cheap"
+    );
+  });
+
+  it("keeps costly overrides within the profile when limiting cost", () => {
+    const config = {
+      performance: { maxRetries: 10 },
+      selfCritique: { maxImprovementAttempts: 5, threshold: 0.9 },
+      queryExpansion: { numExpandedQueries: 1 },
+    };
+
+    const limited = resolveConfig({
+      profile: "thorough",
+      config,
+      limitCost: true,
+    });
+    const thorough = resolveConfig({ profile: "thorough" });
+    expect(limited.performance.maxRetries).toBe(
+      thorough.performance.maxRetries
+    );
+    expect(limited.selfCritique).toEqual({
+      ...thorough.selfCritique,
+      threshold: 0.9,
+    });
+    expect(limited.queryExpansion.numExpandedQueries).toBe(1);
+
+    const unlimited = resolveConfig({ profile: "thorough", config });
+    expect(unlimited.performance.maxRetries).toBe(10);
+    expect(unlimited.selfCritique.maxImprovementAttempts).toBe(5);
+  });
+});
+
+describe("RequestConfigOverrideSchema", () => {
+  it("accepts model changes but not the model server", () => {
+    expect(
+      RequestConfigOverrideSchema.safeParse({
+        llm: { models: { synthesis: "gpt-4o" } },
+      }).success
+    ).toBe(true);
+    expect(
+      RequestConfigOverrideSchema.safeParse({
+        llm: { baseURL: "http://attacker.example/v1" },
+      }).success
+    ).toBe(false);
+    expect(
+      RequestConfigOverrideSchema.safeParse({ reranking: { topN: 500 } })
+        .success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  PromptSetDetailsResponseSchema,
+  PromptSetResponseSchema,
+  QueryResponseSchema,
+} from "../src/api/schemas.ts";
+import { PromptTemplates } from "../src/services/prompts.ts";
+import { startServer } from "./helpers.ts";
+
+let baseUrl: string;
+let defaults: PromptTemplates;
+
+async function call(method: string, route: string, body?: unknown) {
+  const response = await fetch(`${baseUrl}${route}`, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function putPromptSet(body: unknown) {
+  const { status, body: response } = await call(
+    "PUT",
+    "/prompts/patristics",
+    body
+  );
+  expect(status).toBe(200);
+  return PromptSetResponseSchema.parse(response).promptSet;
+}
+
+// Nothing is ingested there, so every answer is the no-answer template
+async function askPatristics() {
+  const { body } = await call("POST", "/query", {
+    query: "Who was Origen?",
+    namespace: "patristics",
+  });
+  return QueryResponseSchema.parse(body);
+}
+
+beforeAll(async () => {
+  baseUrl = await startServer();
+  const { body } = await call("GET", "/prompts/default");
+  defaults = PromptSetDetailsResponseSchema.parse(body).promptSet.templates;
+});
+
+describe("prompt sets", () => {
+  it("answers a bound namespace with the set's templates", async () => {
+    const created = await putPromptSet({
+      templates: { ...defaults, noAnswer: "No Father speaks of {{query}}" },
+      namespaces: ["patristics"],
+    });
+    expect(created.namespaces).toEqual(["patristics"]);
+
+    const response = await askPatristics();
+    expect(response.answer).toBe("No Father speaks of Who was Origen?");
+    expect(response.prompts).toEqual({
+      set: "patristics",
+      version: created.version,
+    });
+  });
+
+  it("records each change as a version and rolls back to an earlier one", async () => {
+    const first = await putPromptSet({
+      templates: { ...defaults, noAnswer: "First draft: {{query}}" },
+    });
+    const second = await putPromptSet({
+      templates: { ...defaults, noAnswer: "Second draft: {{query}}" },
+    });
+    expect(second.version).not.toBe(first.version);
+    expect(second.versions.map((version) => version.id)).toContain(
+      first.version
+    );
+    expect((await askPatristics()).answer).toBe(
+      "Second draft: Who was Origen?"
+    );
+
+    const restored = await putPromptSet({ version: first.version });
+    expect(restored.version).toBe(first.version);
+    const response = await askPatristics();
+    expect(response.answer).toBe("First draft: Who was Origen?");
+    expect(response.prompts?.version).toBe(first.version);
+
+    const { body } = await call(
+      "GET",
+      `/prompts/patristics?version=${second.version}`
+    );
+    expect(
+      PromptSetDetailsResponseSchema.parse(body).promptSet.templates.noAnswer
+    ).toBe("Second draft: {{query}}");
+  });
+
+  it("rejects templates with unknown variables", async () => {
+    const { status } = await call("PUT", "/prompts/patristics", {
+      templates: { ...defaults, noAnswer: "Ask {{author}} instead" },
+    });
+    expect(status).toBe(400);
+  });
+});
@@ -0,0 +1,108 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  AdvancedQueryResponseSchema,
+  QueryResponseSchema,
+} from "../src/api/schemas.ts";
+import { CognoClient, QueryStreamEvent } from "../src/client/index.ts";
+import { ingestText, startServer } from "./helpers.ts";
+
+const DOCUMENT = `The Five Ways
+
+The first way is the argument from motion. Whatever is in motion is put in motion by another, and this cannot go on to infinity.
+
+The second way is from the nature of the efficient cause. Nothing is the efficient cause of itself.
+
+Virtue
+
+Virtue is a habit of the good. Courage moderates fear, and temperance moderates the desire for pleasure.`;
+
+const MOCK_ANSWER = "This is a mock answer generated without a language model.";
+
+let client: CognoClient;
+
+beforeAll(async () => {
+  client = new CognoClient({ baseUrl: await startServer() });
+  await ingestText(
+    client,
+    { "aquinas.txt": DOCUMENT },
+    {
+      namespace: "e2e",
+      chunkStrategy: "recursive",
+      chunkSize: 200,
+      chunkOverlap: 0,
+      metadata: { author: "Aquinas", year: 1270 },
+    }
+  );
+});
+
+describe("query pipeline, offline", () => {
+  it("retrieves the matching chunk", async () => {
+    const response = QueryResponseSchema.parse(
+      await client.query({ query: "argument from motion", namespace: "e2e" })
+    );
+
+    expect(response.matches.length).toBeGreaterThan(0);
+    expect(response.matches[0].fields.chunk_text).toContain("first way");
+    expect(response.matches[0].fields).toMatchObject({
+      source: "aquinas.txt",
+      author: "Aquinas",
+    });
+  });
+
+  it("answers with every stage and no fallbacks", async () => {
+    const response = await client.queryAdvanced({
+      query: "What is virtue?",
+      namespace: "e2e",
+      debug: true,
+    });
+    const parsed = AdvancedQueryResponseSchema.parse(response);
+    if (!("namespace" in parsed)) throw new Error("Expected matches");
+
+    const { advancedRAG } = parsed;
+    expect(advancedRAG.finalAnswer).toBe(MOCK_ANSWER);
+    expect(advancedRAG.degraded).toEqual([]);
+    expect(advancedRAG.critiqueScore).toBe(1);
+    expect(advancedRAG.sources.map((source) => source.source)).toContain(
+      "aquinas.txt"
+    );
+    expect(parsed.config.reranking.provider).toBe("lexical");
+    expect(parsed.usage.calls.length).toBeGreaterThan(0);
+    expect(parsed.trace?.spans.map((span) => span.name)).toEqual(
+      expect.arrayContaining(["retrieve", "search", "rerank", "synthesis"])
+    );
+  });
+
+  it("applies metadata filters", async () => {
+    const response = await client.query({
+      query: "argument from motion",
+      namespace: "e2e",
+      filter: { author: "Augustine" },
+    });
+    expect(response.matches).toEqual([]);
+  });
+
+  it("streams sources, tokens and a final answer", async () => {
+    const events: QueryStreamEvent[] = [];
+    for await (const event of client.queryStream({
+      query: "What is virtue?",
+      namespace: "e2e",
+    })) {
+      events.push(event);
+    }
+
+    const names = events.map((event) => event.event);
+    expect(names[0]).toBe("sources");
+    expect(names[names.length - 1]).toBe("final");
+    const tokens = events.flatMap((event) =>
+      event.event === "token" ? [event.data.token] : []
+    );
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join("")).toBe(MOCK_ANSWER);
+  });
+
+  it("rejects invalid requests", async () => {
+    await expect(client.query({ query: "" })).rejects.toMatchObject({
+      status: 400,
+    });
+  });
+});
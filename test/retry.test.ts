@@ -0,0 +1,144 @@
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { getAdvancedRAGConfig } from "../src/config/advanced-rag.config.js";
+import { advancedRAGQuery } from "../src/services/advanced-rag.ts";
+import { ingestFile } from "../src/services/ingestion.ts";
+import { DATA_DIR } from "../src/utils/json-file.ts";
+import {
+  isTransientError,
+  TimeoutError,
+  withRetry,
+} from "../src/utils/retry.ts";
+
+describe("isTransientError", () => {
+  it("retries timeouts, network failures, 429 and 5xx", () => {
+    expect(isTransientError(new TimeoutError("search", 100))).toBe(true);
+    expect(isTransientError(Object.assign(new Error(), { status: 503 }))).toBe(
+      true
+    );
+    expect(isTransientError(Object.assign(new Error(), { status: 429 }))).toBe(
+      true
+    );
+    expect(
+      isTransientError(
+        Object.assign(new TypeError("fetch failed"), {
+          cause: Object.assign(new Error(), { code: "ECONNRESET" }),
+        })
+      )
+    ).toBe(true);
+  });
+
+  it("does not retry errors that fail the same way every time", () => {
+    expect(isTransientError(Object.assign(new Error(), { status: 401 }))).toBe(
+      false
+    );
+    expect(isTransientError(new Error("Missing OPENAI_API_KEY"))).toBe(false);
+    expect(isTransientError(new SyntaxError("Unexpected token"))).toBe(false);
+    expect(isTransientError("failed")).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  it("retries transient failures until an attempt succeeds", async () => {
+    let attempts = 0;
+    const result = await withRetry(
+      async () => {
+        if (++attempts < 3) throw Object.assign(new Error(), { status: 502 });
+        return "ok";
+      },
+      { label: "test", retries: 3, timeoutMs: 1000 }
+    );
+
+    expect(result).toBe("ok");
+    expect(attempts).toBe(3);
+  });
+
+  it("throws permanent errors without retrying", async () => {
+    let attempts = 0;
+    await expect(
+      withRetry(
+        async () => {
+          attempts++;
+          throw new Error("invalid request");
+        },
+        { label: "test", retries: 3, timeoutMs: 1000 }
+      )
+    ).rejects.toThrow("invalid request");
+    expect(attempts).toBe(1);
+  });
+
+  it("aborts an attempt that times out", async () => {
+    let signal: AbortSignal | undefined;
+    await expect(
+      withRetry(
+        (attemptSignal) => {
+          signal = attemptSignal;
+          return new Promise(() => {});
+        },
+        { label: "slow stage", retries: 0, timeoutMs: 50 }
+      )
+    ).rejects.toThrow("slow stage timed out after 50ms");
+    expect(signal?.aborted).toBe(true);
+  });
+});
+
+describe("pipeline fallbacks", () => {
+  const MOCK_ANSWER =
+    "This is a mock answer generated without a language model.";
+
+  beforeAll(async () => {
+    await ingestFile(
+      Buffer.from("Courage moderates fear, and temperance moderates pleasure."),
+      "virtue.txt",
+      "text/plain",
+      { namespace: "fallbacks", chunkSize: 1200, chunkOverlap: 0 },
+      { chunksProcessed: 0, chunksTotal: 0 },
+      () => {}
+    );
+
+    const script = path.join(DATA_DIR, "retry-mock.json");
+    writeFileSync(
+      script,
+      JSON.stringify([
+        { stage: "expansion", match: "explode", error: "invalid request" },
+        { stage: "synthesis", match: "stall", delayMs: 5000 },
+        { stage: "critique", match: "grumble", error: "invalid request" },
+      ])
+    );
+    process.env.LLM_MOCK_SCRIPT = script;
+  });
+
+  function ask(query: string) {
+    const config = structuredClone(getAdvancedRAGConfig());
+    config.performance.maxRetries = 0;
+    config.performance.stageTimeoutMs.synthesis = 200;
+    return advancedRAGQuery(query, [], 5, "fallbacks", { config });
+  }
+
+  it("searches with the original query when expansion fails", async () => {
+    const result = await ask("explode: courage?");
+
+    expect(result.degraded).toEqual(["expansion"]);
+    expect(result.expandedQueries).toEqual(["explode: courage?"]);
+    expect(result.finalAnswer).toBe(MOCK_ANSWER);
+  });
+
+  it("returns the ranked sources alone when synthesis times out", async () => {
+    const result = await ask("stall: courage?");
+
+    expect(result.degraded).toEqual(["synthesis"]);
+    expect(result.finalAnswer).toBe("");
+    expect(result.sources.map((source) => source.source)).toEqual([
+      "virtue.txt",
+    ]);
+  });
+
+  it("keeps the unreviewed answer when critique fails", async () => {
+    const result = await ask("grumble: courage?");
+
+    expect(result.degraded).toEqual(["critique"]);
+    expect(result.finalAnswer).toBe(MOCK_ANSWER);
+    expect(result.critiqueScore).toBeNull();
+  });
+});
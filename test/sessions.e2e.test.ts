@@ -0,0 +1,124 @@
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  MessageResponseSchema,
+  SessionResponseSchema,
+} from "../src/api/schemas.ts";
+import { CognoClient } from "../src/client/index.ts";
+import { DATA_DIR } from "../src/utils/json-file.ts";
+import { ingestText, startServer } from "./helpers.ts";
+
+const STANDALONE = "What does temperance moderate?";
+
+let baseUrl: string;
+
+async function post(route: string, body: unknown) {
+  const response = await fetch(`${baseUrl}${route}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function newSession(): Promise<string> {
+  const { status, body } = await post("/sessions", { namespace: "sessions" });
+  expect(status).toBe(201);
+  return SessionResponseSchema.parse(body).session.id;
+}
+
+beforeAll(async () => {
+  const script = path.join(DATA_DIR, "sessions-mock.json");
+  writeFileSync(
+    script,
+    JSON.stringify([{ stage: "condense", response: STANDALONE }])
+  );
+  process.env.LLM_MOCK_SCRIPT = script;
+
+  baseUrl = await startServer();
+  await ingestText(
+    new CognoClient({ baseUrl }),
+    {
+      "virtue.txt":
+        "Temperance moderates the desire for pleasure. Courage moderates fear.",
+    },
+    { namespace: "sessions", metadata: { author: "Aquinas" } }
+  );
+});
+
+describe("sessions", () => {
+  it("rewrites follow-ups into standalone questions from the history", async () => {
+    const id = await newSession();
+
+    const first = await post(`/sessions/${id}/messages`, {
+      content: "What is temperance?",
+    });
+    expect(first.status).toBe(200);
+    const answer = MessageResponseSchema.parse(first.body);
+    expect(answer.standaloneQuery).toBe("What is temperance?");
+    expect(answer.sources.map((source) => source.source)).toContain(
+      "virtue.txt"
+    );
+
+    const followUp = MessageResponseSchema.parse(
+      (await post(`/sessions/${id}/messages`, { content: "What about it?" }))
+        .body
+    );
+    expect(followUp.standaloneQuery).toBe(STANDALONE);
+
+    const { session } = SessionResponseSchema.parse(
+      await (await fetch(`${baseUrl}/sessions/${id}`)).json()
+    );
+    expect(session.turns.map((turn) => turn.role)).toEqual([
+      "user",
+      "assistant",
+      "user",
+      "assistant",
+    ]);
+    expect(session.turns[2].standaloneQuery).toBe(STANDALONE);
+  });
+
+  it("accepts the query options and reports the config and cache", async () => {
+    const id = await newSession();
+    const { status, body } = await post(`/sessions/${id}/messages`, {
+      content: "What is courage?",
+      profile: "fast",
+      config: { reranking: { topN: 2 } },
+    });
+
+    expect(status).toBe(200);
+    const answer = MessageResponseSchema.parse(body);
+    expect(answer.profile).toBe("fast");
+    expect(answer.config.queryExpansion.enabled).toBe(false);
+    expect(answer.config.reranking.topN).toBe(2);
+    expect(answer.cache.enabled).toBe(answer.config.performance.cacheEnabled);
+  });
+
+  it("applies metadata filters", async () => {
+    const id = await newSession();
+    const answer = MessageResponseSchema.parse(
+      (
+        await post(`/sessions/${id}/messages`, {
+          content: "What is courage?",
+          filter: { author: "Augustine" },
+        })
+      ).body
+    );
+
+    expect(answer.sources).toEqual([]);
+    expect(answer.answer).toMatch(/don't have enough information/);
+  });
+
+  it("rejects invalid options and unknown sessions", async () => {
+    const id = await newSession();
+    const invalid = await post(`/sessions/${id}/messages`, {
+      content: "What is courage?",
+      profile: "cheap",
+    });
+    expect(invalid.status).toBe(400);
+
+    const missing = await post("/sessions/nope/messages", { content: "Hi" });
+    expect(missing.status).toBe(404);
+  });
+});
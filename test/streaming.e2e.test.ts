@@ -0,0 +1,112 @@
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { CognoClient, QueryStreamEvent } from "../src/client/index.ts";
+import { DATA_DIR } from "../src/utils/json-file.ts";
+import { ingestText, startServer } from "./helpers.ts";
+
+// Searching the "broken" namespace fails, as with an unreachable index
+vi.mock("../src/services/search.ts", async (importOriginal) => {
+  const search =
+    await importOriginal<typeof import("../src/services/search.ts")>();
+  return {
+    ...search,
+    searchMatches: (namespace, ...rest) =>
+      namespace === "broken"
+        ? Promise.reject(new Error("Index unavailable"))
+        : search.searchMatches(namespace, ...rest),
+  } satisfies typeof search;
+});
+
+const REVISED = "Courage is the virtue that moderates fear.";
+
+let baseUrl: string;
+let client: CognoClient;
+
+async function collect(query: string, namespace: string) {
+  const events: QueryStreamEvent[] = [];
+  for await (const event of client.queryStream({ query, namespace })) {
+    events.push(event);
+  }
+  return events;
+}
+
+beforeAll(async () => {
+  const script = path.join(DATA_DIR, "streaming-mock.json");
+  writeFileSync(
+    script,
+    JSON.stringify([
+      { stage: "expansion", response: "fear and courage" },
+      // The first draft scores low, so a corrective attempt replaces it
+      {
+        stage: "critique",
+        match: "mock answer",
+        response: { score: 0.2, details: { feedback: "Sharpen it" } },
+      },
+      { stage: "synthesis", match: "Sharpen it", response: REVISED },
+    ])
+  );
+  process.env.LLM_MOCK_SCRIPT = script;
+
+  baseUrl = await startServer();
+  client = new CognoClient({ baseUrl });
+  await ingestText(
+    client,
+    { "virtue.txt": "Courage moderates fear. Temperance moderates pleasure." },
+    { namespace: "streaming" }
+  );
+});
+
+describe("streaming queries", () => {
+  it("sends sources, queries, tokens, the revision, then the final event", async () => {
+    const events = await collect("What is courage?", "streaming");
+
+    const names = events.map((event) => event.event);
+    const firstToken = names.indexOf("token");
+    expect(names.slice(0, firstToken)).toEqual(["sources", "queries"]);
+    expect(names.slice(-2)).toEqual(["revision", "final"]);
+    expect(names.slice(firstToken, -2).every((name) => name === "token")).toBe(
+      true
+    );
+
+    const queries = events.find((event) => event.event === "queries");
+    expect(queries?.data).toEqual({
+      expandedQueries: ["What is courage?", "fear and courage"],
+    });
+    expect(events[events.length - 2]).toEqual({
+      event: "revision",
+      data: { answer: REVISED, critiqueScore: 1 },
+    });
+    const final = events[events.length - 1];
+    if (final.event !== "final") throw new Error("Expected a final event");
+    expect(final.data.answer).toBe(REVISED);
+  });
+
+  it("streams from /query when the client accepts event streams", async () => {
+    const response = await fetch(`${baseUrl}/query`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+      },
+      body: JSON.stringify({
+        query: "What is courage?",
+        namespace: "streaming",
+      }),
+    });
+
+    expect(response.headers.get("content-type")).toMatch(/text\/event-stream/);
+    expect(await response.text()).toMatch(/^event: sources\n/);
+  });
+
+  it("ends the stream with an error event when the query fails", async () => {
+    const events = await collect("What is courage?", "broken");
+
+    expect(events).toEqual([
+      {
+        event: "error",
+        data: { error: "An error occurred while processing your request." },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { AdvancedQueryResponseSchema } from "../src/api/schemas.ts";
+import { CognoClient } from "../src/client/index.ts";
+import { createTrace, withSpan } from "../src/utils/trace.ts";
+import { ingestText, startServer } from "./helpers.ts";
+
+let baseUrl: string;
+
+async function queryAdvanced(body: unknown, headers = {}) {
+  const response = await fetch(`${baseUrl}/query/advanced`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+  const parsed = AdvancedQueryResponseSchema.parse(await response.json());
+  if (!("usage" in parsed)) throw new Error("Expected matches");
+  return { requestId: response.headers.get("x-request-id"), body: parsed };
+}
+
+beforeAll(async () => {
+  baseUrl = await startServer();
+  await ingestText(
+    new CognoClient({ baseUrl }),
+    { "courage.txt": "Courage moderates fear." },
+    { namespace: "tracing" }
+  );
+});
+
+describe("request tracing", () => {
+  it("returns the trace of each stage when debugging", async () => {
+    const { requestId, body } = await queryAdvanced(
+      { query: "What is courage?", namespace: "tracing", debug: true },
+      { "X-Request-Id": "trace-me-1" }
+    );
+
+    expect(requestId).toBe("trace-me-1");
+    expect(body.trace?.requestId).toBe("trace-me-1");
+    const spans = body.trace?.spans ?? [];
+    expect(spans.map((span) => span.name)).toEqual(
+      expect.arrayContaining([
+        "retrieve",
+        "expansion",
+        "search",
+        "fuse",
+        "rerank",
+        "synthesis",
+        "critique",
+      ])
+    );
+    for (const span of spans) {
+      expect(span.durationMs).toBeGreaterThanOrEqual(0);
+      expect(span.startMs + span.durationMs).toBeLessThanOrEqual(
+        body.trace!.durationMs
+      );
+    }
+  });
+
+  it("leaves the trace out unless asked, and replaces unsafe request IDs", async () => {
+    const { requestId, body } = await queryAdvanced(
+      { query: "What is courage?", namespace: "tracing" },
+      { "X-Request-Id": "bad id\twith spaces" }
+    );
+
+    expect(body.trace).toBeUndefined();
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
+
+describe("withSpan", () => {
+  it("records the span of failed work with its error", async () => {
+    const trace = createTrace("unit");
+    await expect(
+      withSpan(trace, "search", { query: "courage" }, async () => {
+        throw new Error("index unavailable");
+      })
+    ).rejects.toThrow("index unavailable");
+
+    expect(trace.spans).toEqual([
+      expect.objectContaining({
+        name: "search",
+        attributes: { query: "courage" },
+        error: "index unavailable",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  AdvancedQueryResponseSchema,
+  BudgetResponseSchema,
+  UsageResponseSchema,
+} from "../src/api/schemas.ts";
+import { CognoClient } from "../src/client/index.ts";
+import { ingestText, startServer } from "./helpers.ts";
+
+let baseUrl: string;
+let client: CognoClient;
+
+async function ask(namespace: string) {
+  const response = AdvancedQueryResponseSchema.parse(
+    await client.queryAdvanced({ query: "What is courage?", namespace })
+  );
+  if (!("usage" in response)) throw new Error("Expected matches");
+  return response.usage;
+}
+
+async function setBudget(namespace: string, monthlyBudgetUsd: number | null) {
+  const response = await fetch(`${baseUrl}/budgets/${namespace}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ monthlyBudgetUsd }),
+  });
+  return BudgetResponseSchema.parse(await response.json()).budget;
+}
+
+beforeAll(async () => {
+  baseUrl = await startServer();
+  client = new CognoClient({ baseUrl });
+  for (const namespace of ["metered", "budgeted"]) {
+    await ingestText(
+      client,
+      { "courage.txt": "Courage moderates fear." },
+      { namespace }
+    );
+  }
+});
+
+describe("usage accounting", () => {
+  it("totals the usage of each namespace", async () => {
+    const first = await ask("metered");
+    const second = await ask("metered");
+    expect(first.calls.length).toBeGreaterThan(0);
+    expect(first.costUsd).toBeGreaterThan(0);
+
+    const response = await fetch(`${baseUrl}/usage?namespace=metered`);
+    const { totals, groups } = UsageResponseSchema.parse(await response.json());
+    expect(totals.requests).toBe(2);
+    expect(totals.calls).toBe(first.calls.length + second.calls.length);
+    expect(totals.totalTokens).toBe(first.totalTokens + second.totalTokens);
+    expect(totals.costUsd).toBeCloseTo(first.costUsd + second.costUsd, 10);
+    expect(groups.map((group) => group.namespace)).toEqual(["metered"]);
+  });
+
+  it("rejects requests once a namespace's monthly budget is spent", async () => {
+    const { costUsd } = await ask("budgeted");
+
+    expect((await setBudget("budgeted", costUsd * 2)).exceeded).toBe(false);
+    await ask("budgeted");
+
+    const budget = await setBudget("budgeted", costUsd * 2);
+    expect(budget.spentUsd).toBeCloseTo(costUsd * 2, 10);
+    expect(budget.exceeded).toBe(true);
+    await expect(
+      client.queryAdvanced({ query: "What is courage?", namespace: "budgeted" })
+    ).rejects.toMatchObject({ status: 402 });
+    // Other namespaces are unaffected
+    await ask("metered");
+
+    await setBudget("budgeted", null);
+    await ask("budgeted");
+  });
+});
@@ -0,0 +1,23 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+// Stores, indexes and jobs go to a scratch directory, removed after the run
+const dataDir = mkdtempSync(path.join(tmpdir(), "cogno-test-"));
+process.on("exit", () => rmSync(dataDir, { recursive: true, force: true }));
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    // Offline: the mock chat provider and the local vector store
+    env: {
+      DATA_DIR: dataDir,
+      LLM_PROVIDER: "mock",
+      VECTOR_STORE: "local",
+      AUTH_MODE: "none",
+      LOG_LEVEL: "error",
+    },
+    testTimeout: 30000,
+  },
+});